@@ -2,9 +2,15 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import { IncidentList } from "./components/IncidentList";
+import { Analytics } from "./components/Analytics";
+import { AuditLog } from "./components/AuditLog";
+import { CategoryManager } from "./components/CategoryManager";
+import { LocationManager } from "./components/LocationManager";
+import { FloorPlanMap } from "./components/FloorPlanMap";
 
 const queryClient = new QueryClient();
 
@@ -15,7 +21,15 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route path="/" element={<Index />}>
+            <Route index element={<Navigate to="/incidents" replace />} />
+            <Route path="incidents/:incidentId?" element={<IncidentList />} />
+            <Route path="map" element={<FloorPlanMap />} />
+            <Route path="analytics" element={<Analytics />} />
+            <Route path="audit" element={<AuditLog />} />
+            <Route path="categories" element={<CategoryManager />} />
+            <Route path="locations" element={<LocationManager />} />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
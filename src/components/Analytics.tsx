@@ -1,52 +1,175 @@
-import { useQuery } from "@tanstack/react-query";
+import { Fragment, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { AlertTriangle, CheckCircle, Clock, XCircle, TrendingUp, MapPin } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { AlertTriangle, CheckCircle, Clock, TrendingUp, MapPin, Timer } from "lucide-react";
+import { DateRangePicker } from "./DateRangePicker";
+import { ResponseTimes } from "./ResponseTimes";
+import {
+  AnalyticsRangeArgs,
+  DEFAULT_DATE_RANGE_PRESET,
+  DateRange,
+  EMPTY_INCIDENT_STATS,
+  TIME_BUCKET_LABELS,
+  TimeBucket,
+  UNMAPPED_LOCATION,
+  formatDuration,
+  formatPercentChange,
+  formatTrendPeriod,
+  getCategoryPriorityBreakdown,
+  getComparisonPeriod,
+  getPercentChange,
+  getSlaRate,
+  toRangeArgs,
+} from "@/lib/analytics";
+import { useIncidentsRealtime } from "@/hooks/use-incidents-realtime";
+import { useCategories } from "@/hooks/use-categories";
+import { useLocations } from "@/hooks/use-locations";
+import { getCategoryLabel, getSubcategories, getTopLevelCategories } from "@/lib/incident-categories";
+import { LOCATION_LEVELS, LOCATION_LEVEL_LABELS, LocationLevel, hasLocationRegistry } from "@/lib/locations";
+
+const TREND_CHART_CONFIG = {
+  reported: { label: "Reported", color: "hsl(var(--primary))" },
+  resolved: { label: "Resolved", color: "hsl(var(--status-resolved))" },
+} satisfies ChartConfig;
+
+const PRIORITY_CHART_CONFIG = {
+  critical: { label: "Critical", color: "hsl(var(--priority-critical))" },
+  high: { label: "High", color: "hsl(var(--priority-high))" },
+  medium: { label: "Medium", color: "hsl(var(--priority-medium))" },
+  low: { label: "Low", color: "hsl(var(--priority-low))" },
+} satisfies ChartConfig;
+
+const fetchStats = async (args: AnalyticsRangeArgs) => {
+  const { data, error } = await supabase.rpc("incident_stats", args);
+  if (error) throw error;
+  return data[0];
+};
 
 export const Analytics = () => {
-  const { data: incidents } = useQuery({
-    queryKey: ["incidents"],
+  useIncidentsRealtime("analytics");
+  const { data: categories } = useCategories();
+  const { data: locations } = useLocations();
+  const [locationLevel, setLocationLevel] = useState<LocationLevel>("building");
+  const [range, setRange] = useState<DateRange>(() => DEFAULT_DATE_RANGE_PRESET.getRange(new Date()));
+  const [bucket, setBucket] = useState<TimeBucket>("day");
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const hasRegistry = hasLocationRegistry(locations);
+
+  // Everything below covers incidents reported in the selected range; the cards also
+  // compare against the period before it
+  const category = categoryFilter === "all" ? undefined : categoryFilter;
+  const comparison = getComparisonPeriod(range);
+  const args = toRangeArgs(range, category);
+  const comparisonArgs = toRangeArgs(comparison, category);
+
+  const { data: stats = EMPTY_INCIDENT_STATS } = useQuery({
+    queryKey: ["analytics", "stats", args],
+    queryFn: () => fetchStats(args),
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: previousStats = EMPTY_INCIDENT_STATS } = useQuery({
+    queryKey: ["analytics", "stats", comparisonArgs],
+    queryFn: () => fetchStats(comparisonArgs),
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: trend = [] } = useQuery({
+    queryKey: ["analytics", "trend", { ...args, bucket }],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("incident_trend", {
+        ...args,
+        _bucket: bucket,
+        _time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      if (error) throw error;
+      return data.map((row) => ({ ...row, period: formatTrendPeriod(row.period, bucket) }));
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: categoryCounts = [] } = useQuery({
+    queryKey: ["analytics", "categories", args],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from("incidents")
-        .select("*")
-        .order("created_at", { ascending: false });
+      const { data, error } = await supabase.rpc("incident_category_counts", args);
+      if (error) throw error;
+      return data;
+    },
+    placeholderData: keepPreviousData,
+  });
 
+  // Registered locations roll up to the chosen level; free text is only used without a registry
+  const level = hasRegistry ? locationLevel : undefined;
+  const { data: topLocations = [] } = useQuery({
+    queryKey: ["analytics", "locations", { ...args, level }],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("incident_location_counts", { ...args, _level: level });
       if (error) throw error;
       return data;
     },
+    placeholderData: keepPreviousData,
   });
 
-  const stats = {
-    total: incidents?.length || 0,
-    open: incidents?.filter((i) => i.status === "open").length || 0,
-    inProgress: incidents?.filter((i) => i.status === "in_progress").length || 0,
-    resolved: incidents?.filter((i) => i.status === "resolved").length || 0,
-    closed: incidents?.filter((i) => i.status === "closed").length || 0,
-    critical: incidents?.filter((i) => i.priority === "critical").length || 0,
-    high: incidents?.filter((i) => i.priority === "high").length || 0,
-  };
-
-  const categoryStats = incidents?.reduce((acc: any, incident) => {
-    acc[incident.category] = (acc[incident.category] || 0) + 1;
-    return acc;
-  }, {});
-
-  const locationStats = incidents?.reduce((acc: any, incident) => {
-    acc[incident.location] = (acc[incident.location] || 0) + 1;
-    return acc;
-  }, {});
-
-  const topCategories = Object.entries(categoryStats || {})
-    .sort(([, a]: any, [, b]: any) => b - a)
-    .slice(0, 5);
-
-  const topLocations = Object.entries(locationStats || {})
-    .sort(([, a]: any, [, b]: any) => b - a)
-    .slice(0, 5);
+  const describeChange = (key: "total" | "open" | "in_progress" | "resolved") =>
+    formatPercentChange(getPercentChange(stats[key], previousStats[key]), comparison.label);
+
+  const categoryBreakdown = getCategoryPriorityBreakdown(categoryCounts).map((row) => ({
+    ...row,
+    label: getCategoryLabel(categories, row.category),
+  }));
+  const topCategories = categoryBreakdown.slice(0, 5);
+
+  const responseSla = getSlaRate(stats.response_sla_met, stats.response_sla_breached);
+  const resolutionSla = getSlaRate(stats.resolution_sla_met, stats.resolution_sla_breached);
 
   return (
     <div className="space-y-6">
+      {/* Period */}
+      <div className="flex flex-col sm:flex-row sm:justify-end gap-4">
+        <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+          <SelectTrigger className="w-full sm:w-[180px]">
+            <SelectValue placeholder="Category" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Categories</SelectItem>
+            {getTopLevelCategories(categories ?? []).map((c) => (
+              <Fragment key={c.id}>
+                <SelectItem value={c.slug}>{c.name}</SelectItem>
+                {getSubcategories(categories, c.id).map((sub) => (
+                  <SelectItem key={sub.id} value={sub.slug} className="pl-12">
+                    {sub.name}
+                  </SelectItem>
+                ))}
+              </Fragment>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={bucket} onValueChange={(value: TimeBucket) => setBucket(value)}>
+          <SelectTrigger className="w-full sm:w-[140px]" aria-label="Group trend by">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(TIME_BUCKET_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <DateRangePicker value={range} onChange={setRange} />
+      </div>
+
       {/* Overview Stats */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
@@ -56,7 +179,7 @@ export const Analytics = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.total}</div>
-            <p className="text-xs text-muted-foreground mt-1">All time</p>
+            <p className="text-xs text-muted-foreground mt-1">{describeChange("total")}</p>
           </CardContent>
         </Card>
 
@@ -67,7 +190,7 @@ export const Analytics = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.open}</div>
-            <p className="text-xs text-muted-foreground mt-1">Requires attention</p>
+            <p className="text-xs text-muted-foreground mt-1">{describeChange("open")}</p>
           </CardContent>
         </Card>
 
@@ -77,8 +200,8 @@ export const Analytics = () => {
             <Clock className="h-4 w-4 text-status-in-progress" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.inProgress}</div>
-            <p className="text-xs text-muted-foreground mt-1">Being handled</p>
+            <div className="text-2xl font-bold">{stats.in_progress}</div>
+            <p className="text-xs text-muted-foreground mt-1">{describeChange("in_progress")}</p>
           </CardContent>
         </Card>
 
@@ -89,7 +212,52 @@ export const Analytics = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.resolved}</div>
-            <p className="text-xs text-muted-foreground mt-1">Successfully handled</p>
+            <p className="text-xs text-muted-foreground mt-1">{describeChange("resolved")}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Trends */}
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Incidents Over Time</CardTitle>
+            <CardDescription>Reported and resolved per {bucket}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={TREND_CHART_CONFIG} className="h-[280px] w-full aspect-auto">
+              <LineChart data={trend} margin={{ left: -20, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="period" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="reported" type="monotone" stroke="var(--color-reported)" strokeWidth={2} dot={false} />
+                <Line dataKey="resolved" type="monotone" stroke="var(--color-resolved)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Categories by Priority</CardTitle>
+            <CardDescription>Incidents reported in the period</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={PRIORITY_CHART_CONFIG} className="h-[280px] w-full aspect-auto">
+              <BarChart data={categoryBreakdown} margin={{ left: -20, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} interval={0} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="low" stackId="priority" fill="var(--color-low)" />
+                <Bar dataKey="medium" stackId="priority" fill="var(--color-medium)" />
+                <Bar dataKey="high" stackId="priority" fill="var(--color-high)" />
+                <Bar dataKey="critical" stackId="priority" fill="var(--color-critical)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
           </CardContent>
         </Card>
       </div>
@@ -141,7 +309,7 @@ export const Analytics = () => {
             </div>
             <div className="flex items-center justify-between">
               <span className="text-sm font-medium">In Progress</span>
-              <span className="text-sm font-bold">{stats.inProgress}</span>
+              <span className="text-sm font-bold">{stats.in_progress}</span>
             </div>
             <div className="flex items-center justify-between">
               <span className="text-sm font-medium">Resolved</span>
@@ -155,6 +323,48 @@ export const Analytics = () => {
         </Card>
       </div>
 
+      {/* SLA Compliance */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Response SLA Compliance</CardTitle>
+            <Timer className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {responseSla === null ? "—" : `${responseSla}%`}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">Acknowledged within target</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Resolution SLA Compliance</CardTitle>
+            <CheckCircle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {resolutionSla === null ? "—" : `${resolutionSla}%`}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">Resolved within target</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Mean Time to Resolve</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatDuration(stats.mean_time_to_resolve_seconds)}</div>
+            <p className="text-xs text-muted-foreground mt-1">From report to resolution</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <ResponseTimes args={args} level={level} />
+
       {/* Top Categories and Locations */}
       <div className="grid gap-4 md:grid-cols-2">
         <Card>
@@ -163,28 +373,44 @@ export const Analytics = () => {
             <CardDescription>Most common incident types</CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
-            {topCategories.map(([category, count]: [string, any]) => (
-              <div key={category} className="flex items-center justify-between">
-                <span className="text-sm capitalize">{category.replace(/_/g, " ")}</span>
-                <span className="text-sm font-bold">{count}</span>
+            {topCategories.map((row) => (
+              <div key={row.category} className="flex items-center justify-between">
+                <span className="text-sm">{row.label}</span>
+                <span className="text-sm font-bold">{row.total}</span>
               </div>
             ))}
           </CardContent>
         </Card>
 
         <Card>
-          <CardHeader>
-            <CardTitle>
-              <MapPin className="w-4 h-4 inline mr-2" />
-              Top Locations
-            </CardTitle>
-            <CardDescription>Areas with most incidents</CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-2">
+            <div className="space-y-1.5">
+              <CardTitle>
+                <MapPin className="w-4 h-4 inline mr-2" />
+                Top Locations
+              </CardTitle>
+              <CardDescription>Areas with most incidents</CardDescription>
+            </div>
+            {hasRegistry && (
+              <Select value={locationLevel} onValueChange={(value: LocationLevel) => setLocationLevel(value)}>
+                <SelectTrigger className="w-[120px]" aria-label="Group locations by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOCATION_LEVELS.map((level) => (
+                    <SelectItem key={level} value={level}>
+                      By {LOCATION_LEVEL_LABELS[level].toLowerCase()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
           </CardHeader>
           <CardContent className="space-y-3">
-            {topLocations.map(([location, count]: [string, any]) => (
-              <div key={location} className="flex items-center justify-between">
-                <span className="text-sm">{location}</span>
-                <span className="text-sm font-bold">{count}</span>
+            {topLocations.map((row) => (
+              <div key={row.location_id ?? row.location ?? UNMAPPED_LOCATION} className="flex items-center justify-between">
+                <span className="text-sm">{row.location ?? UNMAPPED_LOCATION}</span>
+                <span className="text-sm font-bold">{row.incident_count}</span>
               </div>
             ))}
           </CardContent>
@@ -0,0 +1,273 @@
+import { Fragment, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAllProfiles } from "@/hooks/use-profiles";
+import { cn } from "@/lib/utils";
+import { endOfDay, format, parseISO, startOfDay } from "date-fns";
+import { ChevronDown, ChevronRight } from "lucide-react";
+
+const PAGE_SIZE = 25;
+
+const AUDITED_TABLES = [
+  { value: "incidents", label: "Incidents" },
+  { value: "incident_updates", label: "Incident updates" },
+  { value: "evidence_items", label: "Evidence" },
+  { value: "profiles", label: "Profiles" },
+  { value: "categories", label: "Categories" },
+  { value: "locations", label: "Locations" },
+  { value: "floor_plans", label: "Floor plans" },
+];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const ACTION_VARIANTS: Record<string, "default" | "secondary" | "destructive"> = {
+  INSERT: "default",
+  UPDATE: "secondary",
+  DELETE: "destructive",
+};
+
+const formatValue = (value: Json | undefined) =>
+  value === null || value === undefined ? "—" : typeof value === "string" ? value : JSON.stringify(value);
+
+const AuditChanges = ({ oldValues, newValues }: { oldValues: Json | null; newValues: Json | null }) => {
+  const before = (oldValues ?? {}) as Record<string, Json>;
+  const after = (newValues ?? {}) as Record<string, Json>;
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+
+  return (
+    <div className="space-y-1 text-xs font-mono">
+      {keys.map((key) => (
+        <div key={key} className="grid grid-cols-[10rem_1fr] gap-2">
+          <span className="text-muted-foreground truncate">{key}</span>
+          <span className="break-all">
+            {key in before && <span className="line-through text-destructive">{formatValue(before[key])}</span>}
+            {key in before && key in after && " → "}
+            {key in after && <span>{formatValue(after[key])}</span>}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const AuditLog = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const { data: profiles } = useAllProfiles();
+
+  const actorFilter = searchParams.get("actor") ?? "all";
+  const tableFilter = searchParams.get("table") ?? "all";
+  const incidentFilter = searchParams.get("incident") ?? "";
+  const dateFrom = searchParams.get("from") ?? "";
+  const dateTo = searchParams.get("to") ?? "";
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+
+  const updateParams = (updates: Record<string, string | null>, resetPage = true) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        for (const [key, value] of Object.entries(updates)) {
+          if (!value || value === "all") next.delete(key);
+          else next.set(key, value);
+        }
+        if (resetPage) next.delete("page");
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  const incidentId = incidentFilter.trim();
+  const validIncidentId = UUID_PATTERN.test(incidentId) ? incidentId : null;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["audit-log", { actorFilter, tableFilter, validIncidentId, dateFrom, dateTo }, page],
+    queryFn: async () => {
+      let query = supabase.from("audit_log").select("*", { count: "exact" });
+
+      if (actorFilter === "system") query = query.is("actor_id", null);
+      else if (actorFilter !== "all") query = query.eq("actor_id", actorFilter);
+      if (tableFilter !== "all") query = query.eq("table_name", tableFilter);
+      if (validIncidentId) query = query.eq("incident_id", validIncidentId);
+      if (dateFrom) query = query.gte("occurred_at", startOfDay(parseISO(dateFrom)).toISOString());
+      if (dateTo) query = query.lte("occurred_at", endOfDay(parseISO(dateTo)).toISOString());
+
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, count, error } = await query
+        .order("occurred_at", { ascending: false })
+        .order("id", { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { entries: data, total: count ?? 0 };
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const entries = data?.entries ?? [];
+  const total = data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const profileNames = new Map(profiles?.map((profile) => [profile.id, profile.full_name]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audit Log</CardTitle>
+        <CardDescription>
+          Every insert, update and delete on incidents, updates, evidence, profiles, categories, locations and floor plans
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row flex-wrap gap-4">
+          <Select value={actorFilter} onValueChange={(value) => updateParams({ actor: value })}>
+            <SelectTrigger className="w-full sm:w-[200px]">
+              <SelectValue placeholder="User" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Users</SelectItem>
+              <SelectItem value="system">System</SelectItem>
+              {profiles?.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.full_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={tableFilter} onValueChange={(value) => updateParams({ table: value })}>
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <SelectValue placeholder="Record type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Records</SelectItem>
+              {AUDITED_TABLES.map((t) => (
+                <SelectItem key={t.value} value={t.value}>
+                  {t.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Incident ID"
+            value={incidentFilter}
+            onChange={(e) => updateParams({ incident: e.target.value })}
+            className={cn("w-full sm:w-[320px] font-mono", incidentId && !validIncidentId && "border-destructive")}
+          />
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              aria-label="From"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => updateParams({ from: e.target.value })}
+              className="w-full sm:w-[160px]"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="date"
+              aria-label="To"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => updateParams({ to: e.target.value })}
+              className="w-full sm:w-[160px]"
+            />
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>When</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Record</TableHead>
+              <TableHead>Incident</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <Fragment key={entry.id}>
+                <TableRow
+                  className="cursor-pointer"
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                >
+                  <TableCell>
+                    {expandedId === entry.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{format(new Date(entry.occurred_at), "PPp")}</TableCell>
+                  <TableCell>
+                    {entry.actor_id ? profileNames.get(entry.actor_id) ?? "Deleted user" : "System"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={ACTION_VARIANTS[entry.action] ?? "secondary"}>{entry.action}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div>{AUDITED_TABLES.find((t) => t.value === entry.table_name)?.label ?? entry.table_name}</div>
+                    <div className="text-xs text-muted-foreground font-mono">{entry.row_id.slice(0, 8)}</div>
+                  </TableCell>
+                  <TableCell>
+                    {entry.incident_id && (
+                      <Link
+                        to={`/incidents/${entry.incident_id}`}
+                        className="text-xs font-mono text-primary hover:underline"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        {entry.incident_id.slice(0, 8)}
+                      </Link>
+                    )}
+                  </TableCell>
+                </TableRow>
+                {expandedId === entry.id && (
+                  <TableRow>
+                    <TableCell />
+                    <TableCell colSpan={5}>
+                      <AuditChanges oldValues={entry.old_values} newValues={entry.new_values} />
+                    </TableCell>
+                  </TableRow>
+                )}
+              </Fragment>
+            ))}
+          </TableBody>
+        </Table>
+
+        {!isLoading && entries.length === 0 && (
+          <p className="text-center text-sm text-muted-foreground py-8">No audit entries match these filters</p>
+        )}
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">
+              Page {page} of {totalPages} • {total} entries
+            </span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page === 1}
+                onClick={() => updateParams({ page: page > 2 ? String(page - 1) : null }, false)}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= totalPages}
+                onClick={() => updateParams({ page: String(page + 1) }, false)}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -44,7 +44,6 @@ export const AuthForm = () => {
               id: authData.user.id,
               full_name: fullName,
               email: email,
-              role: "security_officer",
             });
           
           if (profileError) throw profileError;
@@ -0,0 +1,17 @@
+import { Badge } from "@/components/ui/badge";
+import { useCategories } from "@/hooks/use-categories";
+import { getCategoryIcon, getCategoryLabel, getRootCategory } from "@/lib/incident-categories";
+
+export const CategoryBadge = ({ slug }: { slug: string }) => {
+  const { data: categories } = useCategories();
+  // Subcategories without an icon of their own show their parent's
+  const category = categories?.find((c) => c.slug === slug);
+  const Icon = getCategoryIcon(category?.icon ?? getRootCategory(categories, slug)?.icon);
+
+  return (
+    <Badge variant="secondary" className="gap-1">
+      <Icon className="w-3 h-3" />
+      {getCategoryLabel(categories, slug)}
+    </Badge>
+  );
+};
@@ -0,0 +1,330 @@
+import { Fragment, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums } from "@/integrations/supabase/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import {
+  CATEGORY_ICONS,
+  Category,
+  getCategoryIcon,
+  getSubcategories,
+  getTopLevelCategories,
+  toCategorySlug,
+} from "@/lib/incident-categories";
+import { cn } from "@/lib/utils";
+import { Pencil, Plus } from "lucide-react";
+
+interface CategoryDraft {
+  // Set when editing an existing category
+  id?: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  defaultPriority: Enums<"incident_priority">;
+  icon: string | null;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+const NEW_CATEGORY: CategoryDraft = {
+  name: "",
+  slug: "",
+  parentId: null,
+  defaultPriority: "medium",
+  icon: null,
+  isActive: true,
+  sortOrder: 0,
+};
+
+const toDraft = (category: Category): CategoryDraft => ({
+  id: category.id,
+  name: category.name,
+  slug: category.slug,
+  parentId: category.parent_id,
+  defaultPriority: category.default_priority,
+  icon: category.icon,
+  isActive: category.is_active,
+  sortOrder: category.sort_order,
+});
+
+export const CategoryManager = () => {
+  const [draft, setDraft] = useState<CategoryDraft | null>(null);
+  const { data: categories = [], isLoading } = useCategories();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const saveCategory = useMutation({
+    mutationFn: async (values: CategoryDraft) => {
+      const row = {
+        name: values.name.trim(),
+        parent_id: values.parentId,
+        default_priority: values.defaultPriority,
+        icon: values.icon,
+        is_active: values.isActive,
+        sort_order: values.sortOrder,
+      };
+
+      // Slugs are stored on incidents, so they are fixed once a category exists
+      const { error } = values.id
+        ? await supabase.from("categories").update(row).eq("id", values.id)
+        : await supabase.from("categories").insert({ ...row, slug: values.slug });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, values) => {
+      queryClient.invalidateQueries({ queryKey: ["categories"] });
+      setDraft(null);
+      toast({ title: values.id ? "Category updated" : "Category added" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const toggleActive = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const { error } = await supabase.from("categories").update({ is_active: isActive }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["categories"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const renderRow = (category: Category, isSubcategory: boolean) => {
+    const Icon = getCategoryIcon(category.icon);
+    return (
+      <TableRow key={category.id} className={cn(!category.is_active && "text-muted-foreground")}>
+        <TableCell>
+          <span className={cn("flex items-center gap-2", isSubcategory && "pl-6")}>
+            <Icon className="w-4 h-4" />
+            {category.name}
+          </span>
+        </TableCell>
+        <TableCell className="font-mono text-xs">{category.slug}</TableCell>
+        <TableCell className="capitalize">{category.default_priority}</TableCell>
+        <TableCell>
+          <Switch
+            checked={category.is_active}
+            onCheckedChange={(checked) => toggleActive.mutate({ id: category.id, isActive: checked })}
+            disabled={toggleActive.isPending}
+            aria-label={`${category.name} active`}
+          />
+        </TableCell>
+        <TableCell className="text-right">
+          <Button variant="ghost" size="sm" onClick={() => setDraft(toDraft(category))}>
+            <Pencil className="w-4 h-4" />
+          </Button>
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  const topLevel = getTopLevelCategories(categories);
+  // A category that already has subcategories cannot be nested itself
+  const parentOptions = topLevel.filter(
+    (c) => c.id !== draft?.id && !(draft?.id && getSubcategories(categories, draft.id).length > 0)
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Categories</CardTitle>
+          <CardDescription>
+            Categories and subcategories offered when reporting incidents, with their default priority
+          </CardDescription>
+        </div>
+        <Button onClick={() => setDraft(NEW_CATEGORY)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add category
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Slug</TableHead>
+              <TableHead>Default priority</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {topLevel.map((category) => (
+              <Fragment key={category.id}>
+                {renderRow(category, false)}
+                {getSubcategories(categories, category.id).map((sub) => renderRow(sub, true))}
+              </Fragment>
+            ))}
+          </TableBody>
+        </Table>
+
+        {!isLoading && categories.length === 0 && (
+          <p className="text-center text-sm text-muted-foreground py-8">No categories yet</p>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit category" : "Add category"}</DialogTitle>
+            <DialogDescription>
+              Inactive categories stay on existing incidents but are no longer offered for new reports.
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <form
+              onSubmit={(e) => { e.preventDefault(); saveCategory.mutate(draft); }}
+              className="space-y-4"
+            >
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="category-name">Name</Label>
+                  <Input
+                    id="category-name"
+                    value={draft.name}
+                    onChange={(e) =>
+                      setDraft({
+                        ...draft,
+                        name: e.target.value,
+                        ...(!draft.id && { slug: toCategorySlug(e.target.value) }),
+                      })
+                    }
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="category-slug">Slug</Label>
+                  <Input
+                    id="category-slug"
+                    value={draft.slug}
+                    onChange={(e) => setDraft({ ...draft, slug: toCategorySlug(e.target.value) })}
+                    disabled={!!draft.id}
+                    className="font-mono"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="category-parent">Parent</Label>
+                  <Select
+                    value={draft.parentId ?? "none"}
+                    onValueChange={(value) => setDraft({ ...draft, parentId: value === "none" ? null : value })}
+                  >
+                    <SelectTrigger id="category-parent">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None (top level)</SelectItem>
+                      {parentOptions.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>
+                          {c.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="category-priority">Default priority</Label>
+                  <Select
+                    value={draft.defaultPriority}
+                    onValueChange={(value: CategoryDraft["defaultPriority"]) =>
+                      setDraft({ ...draft, defaultPriority: value })
+                    }
+                  >
+                    <SelectTrigger id="category-priority">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="critical">Critical</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="category-icon">Icon</Label>
+                  <Select
+                    value={draft.icon ?? "none"}
+                    onValueChange={(value) => setDraft({ ...draft, icon: value === "none" ? null : value })}
+                  >
+                    <SelectTrigger id="category-icon">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Default</SelectItem>
+                      {Object.entries(CATEGORY_ICONS).map(([name, Icon]) => (
+                        <SelectItem key={name} value={name}>
+                          <span className="flex items-center gap-2">
+                            <Icon className="w-4 h-4" />
+                            {name}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="category-order">Sort order</Label>
+                  <Input
+                    id="category-order"
+                    type="number"
+                    value={draft.sortOrder}
+                    onChange={(e) => setDraft({ ...draft, sortOrder: Number(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="category-active"
+                  checked={draft.isActive}
+                  onCheckedChange={(checked) => setDraft({ ...draft, isActive: checked })}
+                />
+                <Label htmlFor="category-active">Offered for new incidents</Label>
+              </div>
+
+              <div className="flex gap-2 justify-end">
+                <Button type="button" variant="outline" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={!draft.name.trim() || !draft.slug || saveCategory.isPending}>
+                  {saveCategory.isPending ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -1,39 +1,31 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { Navigate, Outlet, useLocation, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Plus, LogOut, Shield } from "lucide-react";
-import { IncidentList } from "./IncidentList";
 import { IncidentForm } from "./IncidentForm";
-import { Analytics } from "./Analytics";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+
+const FILTERED_TABS = ["incidents", "map"];
 
 export const Dashboard = () => {
   const [showForm, setShowForm] = useState(false);
   const { toast } = useToast();
 
-  const { data: user } = useQuery({
-    queryKey: ["user"],
-    queryFn: async () => {
-      const { data: { user } } = await supabase.auth.getUser();
-      return user;
-    },
-  });
+  const { profile, can, isLoading } = usePermissions();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  // The first path segment selects the tab, e.g. /incidents/:id or /analytics
+  const tab = location.pathname.split("/")[1] || "incidents";
 
-  const { data: profile } = useQuery({
-    queryKey: ["profile", user?.id],
-    queryFn: async () => {
-      if (!user?.id) return null;
-      const { data } = await supabase
-        .from("profiles")
-        .select("*")
-        .eq("id", user.id)
-        .single();
-      return data;
-    },
-    enabled: !!user?.id,
-  });
+  // The incident list and the map share their filters, so they carry over between the two
+  const handleTabChange = (value: string) => {
+    const sharesFilters = FILTERED_TABS.includes(tab) && FILTERED_TABS.includes(value);
+    navigate({ pathname: `/${value}`, search: sharesFilters ? location.search : "" });
+  };
 
   const handleSignOut = async () => {
     await supabase.auth.signOut();
@@ -55,7 +47,7 @@ export const Dashboard = () => {
             <div>
               <h1 className="text-xl font-bold">Security Incident Management</h1>
               <p className="text-sm text-muted-foreground">
-                {profile?.full_name} • {profile?.role}
+                {profile?.full_name} • {profile?.role.replace("_", " ")}
               </p>
             </div>
           </div>
@@ -68,24 +60,70 @@ export const Dashboard = () => {
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6">
-        <Tabs defaultValue="incidents" className="space-y-6">
+        <Tabs value={tab} onValueChange={handleTabChange} className="space-y-6">
           <div className="flex items-center justify-between">
             <TabsList>
               <TabsTrigger value="incidents">Incidents</TabsTrigger>
-              <TabsTrigger value="analytics">Analytics</TabsTrigger>
+              <TabsTrigger value="map">Map</TabsTrigger>
+              {can("view_analytics") && (
+                <TabsTrigger value="analytics">Analytics</TabsTrigger>
+              )}
+              {can("view_audit_log") && (
+                <TabsTrigger value="audit">Audit Log</TabsTrigger>
+              )}
+              {can("manage_categories") && (
+                <TabsTrigger value="categories">Categories</TabsTrigger>
+              )}
+              {can("manage_locations") && (
+                <TabsTrigger value="locations">Locations</TabsTrigger>
+              )}
             </TabsList>
-            <Button onClick={() => setShowForm(true)}>
-              <Plus className="w-4 h-4 mr-2" />
-              Report Incident
-            </Button>
+            {can("create_incident") && (
+              <Button onClick={() => setShowForm(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Report Incident
+              </Button>
+            )}
           </div>
 
           <TabsContent value="incidents" className="space-y-4">
-            <IncidentList />
+            <Outlet />
+          </TabsContent>
+
+          <TabsContent value="map" className="space-y-4">
+            <Outlet />
           </TabsContent>
 
           <TabsContent value="analytics">
-            <Analytics />
+            {can("view_analytics") ? (
+              <Outlet />
+            ) : (
+              !isLoading && <Navigate to="/incidents" replace />
+            )}
+          </TabsContent>
+
+          <TabsContent value="audit">
+            {can("view_audit_log") ? (
+              <Outlet />
+            ) : (
+              !isLoading && <Navigate to="/incidents" replace />
+            )}
+          </TabsContent>
+
+          <TabsContent value="categories">
+            {can("manage_categories") ? (
+              <Outlet />
+            ) : (
+              !isLoading && <Navigate to="/incidents" replace />
+            )}
+          </TabsContent>
+
+          <TabsContent value="locations">
+            {can("manage_locations") ? (
+              <Outlet />
+            ) : (
+              !isLoading && <Navigate to="/incidents" replace />
+            )}
           </TabsContent>
         </Tabs>
       </main>
@@ -0,0 +1,67 @@
+import { useState } from "react";
+import type { DateRange as DayPickerRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { DATE_RANGE_PRESETS, DateRange } from "@/lib/analytics";
+import { endOfDay, format, startOfDay } from "date-fns";
+import { CalendarDays } from "lucide-react";
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+export const DateRangePicker = ({ value, onChange }: DateRangePickerProps) => {
+  const [open, setOpen] = useState(false);
+  // Each opening starts a fresh pick: the first click sets the start, the second the end
+  const [draft, setDraft] = useState<DayPickerRange | undefined>();
+
+  const apply = (range: DateRange) => {
+    onChange({ from: startOfDay(range.from), to: endOfDay(range.to) });
+    setOpen(false);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) setDraft(undefined);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="w-full sm:w-[260px] justify-start font-normal">
+          <CalendarDays className="w-4 h-4 mr-2" />
+          {format(value.from, "MMM d, yyyy")} – {format(value.to, "MMM d, yyyy")}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0 flex" align="end">
+        <div className="flex flex-col gap-1 border-r p-3">
+          {DATE_RANGE_PRESETS.map((preset) => (
+            <Button
+              key={preset.label}
+              variant="ghost"
+              size="sm"
+              className="justify-start"
+              onClick={() => apply(preset.getRange(new Date()))}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          weekStartsOn={1}
+          defaultMonth={value.from}
+          selected={draft}
+          disabled={{ after: new Date() }}
+          onSelect={(range) => {
+            setDraft(range);
+            if (range?.from && range.to) apply({ from: range.from, to: range.to });
+          }}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
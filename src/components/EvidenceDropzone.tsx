@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import {
+  EVIDENCE_ACCEPT,
+  MAX_VIDEO_EVIDENCE_BYTES,
+  formatBytes,
+  getEvidenceKind,
+  validateEvidenceFile,
+} from "@/lib/evidence";
+import { canStripMetadata } from "@/lib/exif";
+import { cn } from "@/lib/utils";
+import { Upload, X } from "lucide-react";
+
+interface EvidenceDropzoneProps {
+  id: string;
+  files: File[];
+  onFilesChange: (files: File[]) => void;
+  // Overall upload progress in percent; shown while an upload is running
+  progress?: number | null;
+  disabled?: boolean;
+  compact?: boolean;
+  stripExif?: boolean;
+  onStripExifChange?: (stripExif: boolean) => void;
+}
+
+export const EvidenceDropzone = ({
+  id,
+  files,
+  onFilesChange,
+  progress = null,
+  disabled = false,
+  compact = false,
+  stripExif,
+  onStripExifChange,
+}: EvidenceDropzoneProps) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const { toast } = useToast();
+  const photos = files.filter((file) => getEvidenceKind(file.type) === "image");
+  const keptMetadataPhotos = photos.filter((file) => !canStripMetadata(file.type));
+
+  const addFiles = (selected: File[]) => {
+    const problems = selected.map(validateEvidenceFile).filter(Boolean);
+    if (problems.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Some files were not added",
+        description: problems.join(" "),
+      });
+    }
+    onFilesChange([...files, ...selected.filter((file) => !validateEvidenceFile(file))]);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      addFiles(Array.from(e.target.files));
+    }
+    // Allow the same file to be picked again after removing it
+    e.target.value = "";
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!disabled) {
+      addFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  const removeFile = (index: number) => {
+    onFilesChange(files.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          "border-2 border-dashed rounded-lg text-center hover:border-primary/50 transition-colors",
+          compact ? "p-3" : "p-6",
+          isDragging && "border-primary bg-primary/5"
+        )}
+      >
+        <input
+          id={id}
+          type="file"
+          multiple
+          accept={EVIDENCE_ACCEPT}
+          onChange={handleFileChange}
+          disabled={disabled}
+          className="hidden"
+        />
+        <label htmlFor={id} className="cursor-pointer">
+          <Upload className={cn("mx-auto text-muted-foreground", compact ? "w-5 h-5 mb-1" : "w-8 h-8 mb-2")} />
+          <p className="text-sm text-muted-foreground">
+            Click to upload or drag and drop
+          </p>
+          {!compact && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Images, audio, PDF and documents up to 10 MB each; video up to {formatBytes(MAX_VIDEO_EVIDENCE_BYTES)}
+            </p>
+          )}
+        </label>
+      </div>
+      {files.length > 0 && (
+        <div className="space-y-2 mt-2">
+          {files.map((file, index) => (
+            <div key={index} className="flex items-center justify-between p-2 bg-muted rounded">
+              <span className="text-sm truncate">{file.name}</span>
+              <span className="text-xs text-muted-foreground ml-auto mr-2 shrink-0">
+                {formatBytes(file.size)}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeFile(index)}
+                disabled={disabled}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      {onStripExifChange && photos.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`${id}-strip-exif`}
+              checked={stripExif}
+              onCheckedChange={(checked) => onStripExifChange(checked === true)}
+              disabled={disabled}
+            />
+            <Label htmlFor={`${id}-strip-exif`} className="text-sm font-normal">
+              Remove location and device metadata from stored photos
+            </Label>
+          </div>
+          {stripExif && keptMetadataPhotos.length > 0 && (
+            <p className="text-xs text-destructive">
+              {keptMetadataPhotos.map((file) => file.name).join(", ")} cannot be cleaned in the browser and will be
+              stored with its location and device metadata.
+            </p>
+          )}
+        </div>
+      )}
+      {progress !== null && (
+        <div className="space-y-1">
+          <Progress value={progress} className="h-2" />
+          <p className="text-xs text-muted-foreground">Uploading evidence… {progress}%</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,548 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useEvidenceUrls } from "@/hooks/use-evidence-urls";
+import {
+  EVIDENCE_BUCKET,
+  STRIP_EXIF_DEFAULT,
+  createEvidenceShareLink,
+  formatBytes,
+  getEvidenceKind,
+  logCustodyEvents,
+  removeEvidenceItem,
+  sha256Hex,
+  uploadEvidenceFiles,
+} from "@/lib/evidence";
+import { formatCoordinates } from "@/lib/exif";
+import { EvidenceDropzone } from "./EvidenceDropzone";
+import { RedactionEditor } from "./RedactionEditor";
+import { format } from "date-fns";
+import { Download, FileDown, FileText, History, Link2, MapPin, Plus, ScanFace, ShieldAlert, ShieldCheck, Trash2 } from "lucide-react";
+
+interface EvidenceSectionProps {
+  incidentId: string;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  upload: "Uploaded",
+  view: "Viewed",
+  download: "Downloaded",
+  export: "Exported",
+  verify: "Verified",
+  remove: "Removed",
+  redact: "Redacted copy created",
+  share: "Share link created",
+};
+
+const EVIDENCE_ITEM_COLUMNS = `
+  *,
+  uploader:profiles!evidence_items_uploaded_by_fkey(full_name, email),
+  custody_events(*, actor:profiles!custody_events_actor_id_fkey(full_name, email))
+`;
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const EvidencePreview = ({
+  url,
+  mimeType,
+  filename,
+}: {
+  url: string | undefined;
+  mimeType: string | null;
+  filename: string;
+}) => {
+  const kind = getEvidenceKind(mimeType);
+
+  if (kind === "document") {
+    return (
+      <div className="rounded-lg border w-full h-24 bg-muted flex items-center justify-center gap-2 text-sm text-muted-foreground">
+        <FileText className="w-6 h-6" />
+        Download to view this document
+      </div>
+    );
+  }
+
+  if (!url) {
+    return <div className="rounded-lg border w-full h-48 bg-muted animate-pulse" />;
+  }
+
+  switch (kind) {
+    case "video":
+      return <video src={url} controls preload="metadata" className="rounded-lg border w-full max-h-96 bg-black" />;
+    case "audio":
+      return <audio src={url} controls preload="metadata" className="w-full" />;
+    case "pdf":
+      return <iframe src={url} title={filename} className="rounded-lg border w-full h-96" />;
+    default:
+      return <img src={url} alt={filename} className="rounded-lg border w-full h-48 object-cover" />;
+  }
+};
+
+export const EvidenceSection = ({ incidentId }: EvidenceSectionProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [openTrail, setOpenTrail] = useState<string | null>(null);
+  const [verification, setVerification] = useState<Record<string, boolean>>({});
+  const [isAdding, setIsAdding] = useState(false);
+  const [newFiles, setNewFiles] = useState<File[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [stripExif, setStripExif] = useState(STRIP_EXIF_DEFAULT);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [removalReason, setRemovalReason] = useState("");
+  const [redactingId, setRedactingId] = useState<string | null>(null);
+  const viewLogged = useRef(new Set<string>());
+  const { user, can } = usePermissions();
+
+  const { data: items } = useQuery({
+    queryKey: ["evidence-items", incidentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("evidence_items")
+        .select(EVIDENCE_ITEM_COLUMNS)
+        .eq("incident_id", incidentId)
+        .is("removed_at", null)
+        .order("created_at", { ascending: true })
+        .order("created_at", { referencedTable: "custody_events", ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!incidentId,
+  });
+
+  const { data: evidenceUrls } = useEvidenceUrls(items?.map((item) => item.storage_path));
+
+  // Downloads and share links use the latest redacted copy of an item when one exists
+  const redactedCopies = new Map<string, NonNullable<typeof items>[number]>();
+  items?.forEach((item) => {
+    if (item.derived_from) redactedCopies.set(item.derived_from, item);
+  });
+  const redactingItem = items?.find((item) => item.id === redactingId);
+
+  const handleError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  const invalidateItems = () =>
+    queryClient.invalidateQueries({ queryKey: ["evidence-items", incidentId] });
+
+  // mutate is stable across renders, so the view logging effect only reruns for new items
+  const { mutate: logViews } = useMutation({
+    mutationFn: (evidenceItemIds: string[]) => logCustodyEvents(evidenceItemIds, "view"),
+    onSuccess: invalidateItems,
+    onError: handleError,
+  });
+
+  // Opening the incident counts as viewing its evidence; log each item once per mount
+  useEffect(() => {
+    const unlogged = (items ?? [])
+      .map((item) => item.id)
+      .filter((id) => !viewLogged.current.has(id));
+    if (unlogged.length === 0) return;
+
+    unlogged.forEach((id) => viewLogged.current.add(id));
+    logViews(unlogged);
+  }, [items, logViews]);
+
+  const download = useMutation({
+    mutationFn: async (item: NonNullable<typeof items>[number]) => {
+      const { data, error } = await supabase.storage
+        .from(EVIDENCE_BUCKET)
+        .download(item.storage_path);
+
+      if (error) throw error;
+      downloadBlob(data, item.original_filename);
+      await logCustodyEvents([item.id], "download");
+    },
+    onSuccess: invalidateItems,
+    onError: handleError,
+  });
+
+  const verify = useMutation({
+    mutationFn: async (item: NonNullable<typeof items>[number]) => {
+      const { data, error } = await supabase.storage
+        .from(EVIDENCE_BUCKET)
+        .download(item.storage_path);
+
+      if (error) throw error;
+      // Stripped photos are checked against the hash of the stored copy
+      const expected = item.stored_sha256 ?? item.sha256;
+      const sha256 = await sha256Hex(data);
+      const matches = !!expected && sha256 === expected;
+      await logCustodyEvents([item.id], "verify", { sha256, matches });
+      return { id: item.id, matches };
+    },
+    onSuccess: ({ id, matches }) => {
+      setVerification((current) => ({ ...current, [id]: matches }));
+      invalidateItems();
+      toast({
+        variant: matches ? "default" : "destructive",
+        title: matches ? "Integrity verified" : "Integrity check failed",
+        description: matches
+          ? "The stored file matches the hash recorded at upload."
+          : "The stored file does not match the hash recorded at upload.",
+      });
+    },
+    onError: handleError,
+  });
+
+  const shareLink = useMutation({
+    mutationFn: async (item: NonNullable<typeof items>[number]) => {
+      const url = await createEvidenceShareLink(item);
+      await navigator.clipboard.writeText(url);
+      return item;
+    },
+    onSuccess: (item) => {
+      invalidateItems();
+      toast({
+        title: "Share link copied",
+        description: item.derived_from
+          ? "The link points to the redacted copy and expires in 7 days."
+          : "The link expires in 7 days.",
+      });
+    },
+    onError: handleError,
+  });
+
+  const addEvidence = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Not authenticated");
+      setUploadProgress(0);
+      await uploadEvidenceFiles(incidentId, newFiles, user.id, { stripExif, onProgress: setUploadProgress });
+    },
+    onSuccess: () => {
+      invalidateItems();
+      queryClient.invalidateQueries({ queryKey: ["incident-updates", incidentId] });
+      setNewFiles([]);
+      setIsAdding(false);
+      setUploadProgress(null);
+      toast({ title: "Evidence added" });
+    },
+    onError: (error: Error) => {
+      // Files that made it before the failure are already recorded
+      invalidateItems();
+      setUploadProgress(null);
+      handleError(error);
+    },
+  });
+
+  const removeEvidence = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      await removeEvidenceItem(id, reason);
+    },
+    onSuccess: () => {
+      invalidateItems();
+      queryClient.invalidateQueries({ queryKey: ["incident-updates", incidentId] });
+      setRemovingId(null);
+      setRemovalReason("");
+      toast({ title: "Evidence removed" });
+    },
+    onError: handleError,
+  });
+
+  const exportReport = useMutation({
+    mutationFn: async () => {
+      const report = {
+        incident_id: incidentId,
+        generated_at: new Date().toISOString(),
+        evidence: (items ?? []).map((item) => ({
+          id: item.id,
+          original_filename: item.original_filename,
+          storage_path: item.storage_path,
+          sha256: item.sha256,
+          stored_sha256: item.stored_sha256,
+          exif_stripped: item.exif_stripped,
+          derived_from: item.derived_from,
+          redactions: item.redactions,
+          gps_latitude: item.gps_latitude,
+          gps_longitude: item.gps_longitude,
+          camera_make: item.camera_make,
+          camera_model: item.camera_model,
+          size_bytes: item.size_bytes,
+          mime_type: item.mime_type,
+          captured_at: item.captured_at,
+          uploaded_at: item.created_at,
+          uploaded_by: item.uploader?.full_name ?? null,
+          custody_events: item.custody_events.map((event) => ({
+            event_type: event.event_type,
+            actor: event.actor?.full_name ?? null,
+            details: event.details,
+            created_at: event.created_at,
+          })),
+        })),
+      };
+
+      downloadBlob(
+        new Blob([JSON.stringify(report, null, 2)], { type: "application/json" }),
+        `incident-${incidentId}-custody.json`
+      );
+      await logCustodyEvents((items ?? []).map((item) => item.id), "export");
+    },
+    onSuccess: invalidateItems,
+    onError: handleError,
+  });
+
+  if (!items || (items.length === 0 && !can("comment"))) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Evidence</h3>
+        <div className="flex gap-2">
+          {can("comment") && !isAdding && (
+            <Button variant="outline" size="sm" onClick={() => setIsAdding(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add evidence
+            </Button>
+          )}
+          {items.length > 0 && can("verify_evidence") && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportReport.mutate()}
+              disabled={exportReport.isPending}
+            >
+              <FileDown className="w-4 h-4 mr-2" />
+              Export custody report
+            </Button>
+          )}
+        </div>
+      </div>
+      {isAdding && (
+        <div className="rounded-lg border p-3 space-y-3">
+          <EvidenceDropzone
+            id="add-evidence"
+            files={newFiles}
+            onFilesChange={setNewFiles}
+            progress={uploadProgress}
+            disabled={addEvidence.isPending}
+            stripExif={stripExif}
+            onStripExifChange={setStripExif}
+          />
+          <div className="flex gap-2 justify-end">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setIsAdding(false);
+                setNewFiles([]);
+              }}
+              disabled={addEvidence.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => addEvidence.mutate()}
+              disabled={newFiles.length === 0 || addEvidence.isPending}
+            >
+              Upload
+            </Button>
+          </div>
+        </div>
+      )}
+      <div className="space-y-3">
+        {items.map((item) => (
+          <div key={item.id} className="rounded-lg border p-3 space-y-3">
+            <EvidencePreview
+              url={evidenceUrls?.[item.storage_path]}
+              mimeType={item.mime_type}
+              filename={item.original_filename}
+            />
+
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0 space-y-1 text-sm">
+                <div className="font-medium truncate">{item.original_filename}</div>
+                {item.derived_from && (
+                  <Badge variant="secondary" className="gap-1">
+                    <ScanFace className="w-3 h-3" />
+                    Redacted copy
+                    {items.some((original) => original.id === item.derived_from) &&
+                      ` of ${items.find((original) => original.id === item.derived_from).original_filename}`}
+                  </Badge>
+                )}
+                <div className="text-xs text-muted-foreground">
+                  {formatBytes(item.size_bytes)}
+                  {item.mime_type && ` • ${item.mime_type}`}
+                  {` • Uploaded by ${item.uploader?.full_name ?? "Unknown"}`}
+                </div>
+                {(item.captured_at || item.camera_model) && (
+                  <div className="text-xs text-muted-foreground">
+                    {item.captured_at && `Captured ${format(new Date(item.captured_at), "PPp")}`}
+                    {item.captured_at && item.camera_model && " • "}
+                    {item.camera_model && [item.camera_make, item.camera_model].filter(Boolean).join(" ")}
+                  </div>
+                )}
+                {item.gps_latitude !== null && item.gps_longitude !== null && (
+                  <div className="text-xs text-muted-foreground flex items-center gap-1">
+                    <MapPin className="w-3 h-3" />
+                    {formatCoordinates(item.gps_latitude, item.gps_longitude)}
+                  </div>
+                )}
+                <div className="text-xs font-mono text-muted-foreground truncate" title={item.sha256 ?? undefined}>
+                  SHA-256: {item.sha256 ?? "not recorded"}
+                </div>
+                {item.exif_stripped && (
+                  <div className="text-xs font-mono text-muted-foreground truncate" title={item.stored_sha256 ?? undefined}>
+                    Stored copy (metadata removed): {item.stored_sha256}
+                  </div>
+                )}
+                {!item.exif_stripped && !item.derived_from && getEvidenceKind(item.mime_type) === "image" && (
+                  <div className="text-xs text-muted-foreground">Stored with its original metadata</div>
+                )}
+              </div>
+              {item.id in verification && (
+                <Badge
+                  variant={verification[item.id] ? "outline" : "destructive"}
+                  className={verification[item.id] ? "gap-1 text-status-resolved border-status-resolved" : "gap-1"}
+                >
+                  {verification[item.id] ? <ShieldCheck className="w-3 h-3" /> : <ShieldAlert className="w-3 h-3" />}
+                  {verification[item.id] ? "Verified" : "Mismatch"}
+                </Badge>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => download.mutate(redactedCopies.get(item.id) ?? item)}
+                disabled={download.isPending}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {redactedCopies.has(item.id) ? "Download redacted" : "Download"}
+              </Button>
+              {redactedCopies.has(item.id) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => download.mutate(item)}
+                  disabled={download.isPending}
+                >
+                  Original
+                </Button>
+              )}
+              {can("share_evidence") && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => shareLink.mutate(redactedCopies.get(item.id) ?? item)}
+                  disabled={shareLink.isPending}
+                >
+                  <Link2 className="w-4 h-4 mr-2" />
+                  Share link
+                </Button>
+              )}
+              {can("redact_evidence") && !item.derived_from && getEvidenceKind(item.mime_type) === "image" && (
+                <Button variant="outline" size="sm" onClick={() => setRedactingId(item.id)}>
+                  <ScanFace className="w-4 h-4 mr-2" />
+                  Redact
+                </Button>
+              )}
+              {can("verify_evidence") && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => verify.mutate(item)}
+                  disabled={!(item.stored_sha256 ?? item.sha256) || verify.isPending}
+                >
+                  <ShieldCheck className="w-4 h-4 mr-2" />
+                  Verify
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setOpenTrail(openTrail === item.id ? null : item.id)}
+              >
+                <History className="w-4 h-4 mr-2" />
+                Custody trail ({item.custody_events.length})
+              </Button>
+              {(item.uploaded_by === user?.id || can("remove_any_evidence")) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => {
+                    setRemovingId(item.id);
+                    setRemovalReason("");
+                  }}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Remove
+                </Button>
+              )}
+            </div>
+
+            {removingId === item.id && (
+              <div className="space-y-2 rounded-lg border border-destructive/50 p-3">
+                <p className="text-sm">
+                  The file will be deleted. Its hash and custody trail are kept, and the removal is logged on the timeline.
+                </p>
+                <Textarea
+                  placeholder="Why is this file being removed?"
+                  value={removalReason}
+                  onChange={(e) => setRemovalReason(e.target.value)}
+                  rows={2}
+                />
+                <div className="flex gap-2 justify-end">
+                  <Button variant="outline" size="sm" onClick={() => setRemovingId(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => removeEvidence.mutate({ id: item.id, reason: removalReason.trim() })}
+                    disabled={!removalReason.trim() || removeEvidence.isPending}
+                  >
+                    Remove evidence
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {openTrail === item.id && (
+              <div className="space-y-1 border-l-2 border-muted pl-3">
+                {item.custody_events.map((event) => (
+                  <div key={event.id} className="text-xs flex items-center justify-between gap-2">
+                    <span>
+                      <span className="font-medium">{EVENT_LABELS[event.event_type] ?? event.event_type}</span>
+                      {" by "}
+                      {event.actor?.full_name ?? "System"}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {format(new Date(event.created_at), "PPp")}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      {redactingItem && (
+        <RedactionEditor
+          item={redactingItem}
+          open={!!redactingItem}
+          onOpenChange={(open) => !open && setRedactingId(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import { ReactNode } from "react";
+import type { Enums } from "@/integrations/supabase/types";
+import { useFloorPlanUrl } from "@/hooks/use-floor-plans";
+import { FloorPlan, PIN_COLORS, PlanPin, toPlanPosition } from "@/lib/floor-plans";
+import { cn } from "@/lib/utils";
+
+interface PlanMarkerProps {
+  x: number;
+  y: number;
+  priority: Enums<"incident_priority">;
+  title?: string;
+  onClick?: () => void;
+}
+
+export const PlanMarker = ({ x, y, priority, title, onClick }: PlanMarkerProps) => (
+  <button
+    type="button"
+    title={title}
+    onClick={(e) => {
+      // Clicking a pin must not also place a new one on the plan underneath
+      e.stopPropagation();
+      onClick?.();
+    }}
+    className={cn(
+      "absolute w-4 h-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-background shadow-md",
+      onClick ? "cursor-pointer hover:scale-125 transition-transform" : "pointer-events-none",
+      PIN_COLORS[priority]
+    )}
+    style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+  />
+);
+
+interface FloorPlanCanvasProps {
+  plan: FloorPlan;
+  // When set, clicking the plan reports the position as fractions of the image size
+  onSelect?: (pin: PlanPin) => void;
+  children?: ReactNode;
+}
+
+/** A floor plan image at its own aspect ratio, with markers positioned on top. */
+export const FloorPlanCanvas = ({ plan, onSelect, children }: FloorPlanCanvasProps) => {
+  const { data: url } = useFloorPlanUrl(plan.storage_path);
+
+  return (
+    <div
+      className={cn("relative w-full rounded-lg border bg-muted select-none", onSelect && "cursor-crosshair")}
+      style={{ aspectRatio: `${plan.width} / ${plan.height}` }}
+      onClick={onSelect && ((e) => onSelect(toPlanPosition(e)))}
+    >
+      {url ? (
+        <img src={url} alt="Floor plan" draggable={false} className="absolute inset-0 w-full h-full rounded-lg" />
+      ) : (
+        <div className="absolute inset-0 rounded-lg animate-pulse" />
+      )}
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,225 @@
+import { useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useLocations } from "@/hooks/use-locations";
+import { useFloorPlans } from "@/hooks/use-floor-plans";
+import { useIncidentsRealtime } from "@/hooks/use-incidents-realtime";
+import { FLOOR_PLAN_MIME_TYPES, PIN_COLORS, uploadFloorPlan } from "@/lib/floor-plans";
+import { getLocationPath, indexLocations } from "@/lib/locations";
+import { validEnum } from "@/lib/search-query";
+import { cn } from "@/lib/utils";
+import { FloorPlanCanvas, PlanMarker } from "./FloorPlanCanvas";
+import { IncidentDetails } from "./IncidentDetails";
+import { Map as MapIcon, Upload } from "lucide-react";
+
+/**
+ * Incidents pinned on the floor plan of a building. The status and priority filters share
+ * their URL parameters with the incident list, so switching tabs keeps them.
+ */
+export const FloorPlanMap = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [selectedIncidentId, setSelectedIncidentId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { user, can } = usePermissions();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: locations } = useLocations();
+  const { data: floorPlans, isLoading: isLoadingPlans } = useFloorPlans();
+  const index = useMemo(() => indexLocations(locations), [locations]);
+
+  useIncidentsRealtime("map");
+
+  const statusFilter = searchParams.get("status") ?? "all";
+  const priorityFilter = searchParams.get("priority") ?? "all";
+
+  const updateParams = (updates: Record<string, string | null>) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        for (const [key, value] of Object.entries(updates)) {
+          if (!value || value === "all") next.delete(key);
+          else next.set(key, value);
+        }
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  // Admins can pick any building to give it a plan; everyone else only sees buildings that have one
+  const buildings = (locations ?? [])
+    .filter((location) => location.level === "building" && location.is_active)
+    .filter((location) => can("manage_floor_plans") || floorPlans?.some((plan) => plan.location_id === location.id))
+    .map((location) => ({ id: location.id, path: getLocationPath(index, location.id) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const buildingId = searchParams.get("building") ?? floorPlans?.[0]?.location_id ?? buildings[0]?.id ?? null;
+  const floorPlan = floorPlans?.find((plan) => plan.location_id === buildingId);
+
+  const { data: incidents = [] } = useQuery({
+    queryKey: ["incidents", "map", { floorPlanId: floorPlan?.id, status: statusFilter, priority: priorityFilter }],
+    queryFn: async () => {
+      let query = supabase
+        .from("incidents")
+        .select("id, title, status, priority, plan_x, plan_y")
+        .eq("floor_plan_id", floorPlan.id)
+        .not("plan_x", "is", null);
+
+      const status = validEnum("incident_status", statusFilter);
+      const priority = validEnum("incident_priority", priorityFilter);
+      if (status) query = query.eq("status", status);
+      if (priority) query = query.eq("priority", priority);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!floorPlan,
+  });
+
+  const uploadPlan = useMutation({
+    mutationFn: async (file: File) => {
+      if (!user) throw new Error("Not authenticated");
+      return uploadFloorPlan(buildingId, file, user.id, floorPlan);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["floor-plans"] });
+      toast({ title: floorPlan ? "Floor plan replaced" : "Floor plan uploaded" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <>
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <Select value={buildingId ?? ""} onValueChange={(value) => updateParams({ building: value })}>
+          <SelectTrigger className="w-full sm:flex-1">
+            <SelectValue placeholder="Building" />
+          </SelectTrigger>
+          <SelectContent>
+            {buildings.map((building) => (
+              <SelectItem key={building.id} value={building.id}>
+                {building.path}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={statusFilter} onValueChange={(value) => updateParams({ status: value })}>
+          <SelectTrigger className="w-full sm:w-[180px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Status</SelectItem>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="in_progress">In Progress</SelectItem>
+            <SelectItem value="resolved">Resolved</SelectItem>
+            <SelectItem value="closed">Closed</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={priorityFilter} onValueChange={(value) => updateParams({ priority: value })}>
+          <SelectTrigger className="w-full sm:w-[180px]">
+            <SelectValue placeholder="Priority" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Priorities</SelectItem>
+            <SelectItem value="critical">Critical</SelectItem>
+            <SelectItem value="high">High</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="low">Low</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Floor plan</CardTitle>
+            <CardDescription>
+              {floorPlan
+                ? `${incidents.length} pinned incident(s) match the filters`
+                : "Incidents reported with a position on the plan appear here"}
+            </CardDescription>
+          </div>
+          {can("manage_floor_plans") && buildingId && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={FLOOR_PLAN_MIME_TYPES.join(",")}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) uploadPlan.mutate(file);
+                  e.target.value = "";
+                }}
+              />
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={uploadPlan.isPending}>
+                <Upload className="w-4 h-4 mr-2" />
+                {uploadPlan.isPending ? "Uploading..." : floorPlan ? "Replace plan" : "Upload plan"}
+              </Button>
+            </>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {floorPlan ? (
+            <>
+              <FloorPlanCanvas plan={floorPlan}>
+                {incidents.map((incident) => (
+                  <PlanMarker
+                    key={incident.id}
+                    x={incident.plan_x}
+                    y={incident.plan_y}
+                    priority={incident.priority}
+                    title={incident.title}
+                    onClick={() => setSelectedIncidentId(incident.id)}
+                  />
+                ))}
+              </FloorPlanCanvas>
+              <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+                {Object.entries(PIN_COLORS).map(([priority, className]) => (
+                  <span key={priority} className="flex items-center gap-1.5 capitalize">
+                    <span className={cn("w-3 h-3 rounded-full", className)} />
+                    {priority}
+                  </span>
+                ))}
+              </div>
+            </>
+          ) : (
+            !isLoadingPlans && (
+              <div className="flex flex-col items-center gap-2 py-12 text-center text-sm text-muted-foreground">
+                <MapIcon className="w-8 h-8" />
+                {buildings.length === 0
+                  ? can("manage_floor_plans")
+                    ? "Add buildings in the Locations tab before uploading floor plans"
+                    : "No building has a floor plan yet"
+                  : "This building has no floor plan yet. Upload a PNG, JPEG or WebP image of up to 20 MB."}
+              </div>
+            )
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Incident Details Dialog */}
+      {selectedIncidentId && (
+        <IncidentDetails
+          incidentId={selectedIncidentId}
+          open={!!selectedIncidentId}
+          onOpenChange={(open) => !open && setSelectedIncidentId(null)}
+        />
+      )}
+    </>
+  );
+};
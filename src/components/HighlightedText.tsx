@@ -0,0 +1,23 @@
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+// Renders search highlights produced by ts_headline (<mark>…</mark>) without injecting HTML
+export const HighlightedText = ({ text, className }: HighlightedTextProps) => {
+  const parts = text.split(/(<mark>.*?<\/mark>)/g);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        part.startsWith("<mark>") && part.endsWith("</mark>") ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+};
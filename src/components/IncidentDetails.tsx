@@ -1,14 +1,38 @@
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useIncidentRealtime } from "@/hooks/use-incidents-realtime";
+import { useAssignableProfiles } from "@/hooks/use-profiles";
+import { useFloorPlans } from "@/hooks/use-floor-plans";
+import {
+  IncidentStatus,
+  STATUS_LABELS,
+  canTransition,
+  getAllowedTransitions,
+  requiresReopenReason,
+  requiresResolutionNotes,
+} from "@/lib/incident-status";
+import { STRIP_EXIF_DEFAULT, uploadEvidenceFiles } from "@/lib/evidence";
+import { INCIDENT_FIELD_LABELS, IncidentFieldValues } from "@/lib/incident-fields";
+import { TIMELINE_CHAIN_COLUMNS, TimelineIntegrityResult, verifyTimelineChain } from "@/lib/timeline-integrity";
+import { SlaIndicator } from "./SlaIndicator";
+import { CategoryBadge } from "./CategoryBadge";
+import { EvidenceSection } from "./EvidenceSection";
+import { EvidenceDropzone } from "./EvidenceDropzone";
+import { IncidentFields } from "./IncidentFields";
 import { format } from "date-fns";
-import { Calendar, MapPin, User, Clock, MessageSquare } from "lucide-react";
+import { Calendar, MapPin, User, Clock, MessageSquare, UserCheck, Siren, Paperclip, Pencil, ScrollText, ShieldAlert, ShieldCheck } from "lucide-react";
+
+const EDITABLE_FIELDS = Object.keys(INCIDENT_FIELD_LABELS) as (keyof typeof INCIDENT_FIELD_LABELS)[];
 
 interface IncidentDetailsProps {
   incidentId: string;
@@ -18,129 +42,300 @@ interface IncidentDetailsProps {
 
 export const IncidentDetails = ({ incidentId, open, onOpenChange }: IncidentDetailsProps) => {
   const [newUpdate, setNewUpdate] = useState("");
-  const [statusUpdate, setStatusUpdate] = useState<string>("");
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [attachmentProgress, setAttachmentProgress] = useState<number | null>(null);
+  const [stripExif, setStripExif] = useState(STRIP_EXIF_DEFAULT);
+  const [timelineIntegrity, setTimelineIntegrity] = useState<TimelineIntegrityResult | null>(null);
+  // null while not editing; otherwise the draft values of the edit form
+  const [editValues, setEditValues] = useState<IncidentFieldValues | null>(null);
+  const [pendingStatus, setPendingStatus] = useState<IncidentStatus | null>(null);
+  const [transitionNote, setTransitionNote] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user, can } = usePermissions();
+
+  useIncidentRealtime(incidentId, {
+    currentUserId: user?.id,
+    onExternalChange: ({ kind }) => {
+      toast({
+        title: kind === "incident" ? "Incident changed" : "New timeline entry",
+        description:
+          kind === "incident"
+            ? "Someone else updated the incident you are viewing."
+            : "Someone else added an update to this incident.",
+      });
+    },
+  });
 
-  const { data: incident } = useQuery({
+  const { data: incident, isLoading } = useQuery({
     queryKey: ["incident", incidentId],
     queryFn: async () => {
-      const { data: incidentData, error } = await supabase
+      const { data, error } = await supabase
         .from("incidents")
-        .select("*")
+        .select(
+          `*,
+          reporter:profiles!incidents_reporter_id_fkey(full_name, email),
+          assigned:profiles!incidents_assigned_to_fkey(full_name, email),
+          escalated:profiles!incidents_escalated_to_fkey(full_name, email)`
+        )
         .eq("id", incidentId)
-        .single();
+        .maybeSingle();
 
       if (error) throw error;
-
-      // Fetch reporter profile
-      const { data: reporterData } = await supabase
-        .from("profiles")
-        .select("full_name, email")
-        .eq("id", incidentData.reporter_id)
-        .single();
-
-      // Fetch assigned profile if exists
-      let assignedData = null;
-      if (incidentData.assigned_to) {
-        const { data } = await supabase
-          .from("profiles")
-          .select("full_name, email")
-          .eq("id", incidentData.assigned_to)
-          .single();
-        assignedData = data;
-      }
-
-      return {
-        ...incidentData,
-        reporter: reporterData,
-        assigned: assignedData,
-      };
+      return data;
     },
     enabled: !!incidentId,
+    // Malformed ids fail the uuid cast; retrying will not help
+    retry: (failureCount, error: { code?: string }) => error.code !== "22P02" && failureCount < 3,
   });
 
+  const { data: profiles } = useAssignableProfiles(can("assign_incident"));
+  const { data: floorPlans } = useFloorPlans();
+  const pinnedPlan = floorPlans?.find((plan) => plan.id === incident?.floor_plan_id);
+
   const { data: updates } = useQuery({
     queryKey: ["incident-updates", incidentId],
     queryFn: async () => {
-      const { data: updatesData, error } = await supabase
+      const { data, error } = await supabase
         .from("incident_updates")
-        .select("*")
+        .select("*, user:profiles(full_name, email), attachments:evidence_items(id, original_filename, removed_at)")
         .eq("incident_id", incidentId)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
-
-      // Fetch user profiles for each update
-      const updatesWithProfiles = await Promise.all(
-        (updatesData || []).map(async (update) => {
-          const { data: userData } = await supabase
-            .from("profiles")
-            .select("full_name, email")
-            .eq("id", update.user_id)
-            .single();
-
-          return {
-            ...update,
-            user: userData,
-          };
-        })
-      );
-
-      return updatesWithProfiles;
+      return data;
     },
     enabled: !!incidentId,
   });
 
   const updateStatus = useMutation({
-    mutationFn: async (status: "open" | "in_progress" | "resolved" | "closed") => {
+    mutationFn: async ({ status, note }: { status: IncidentStatus; note?: string }) => {
+      if (!canTransition(incident.status, status)) {
+        throw new Error(`Cannot move incident from ${STATUS_LABELS[incident.status]} to ${STATUS_LABELS[status]}`);
+      }
+
+      // resolved_at is maintained by the status transition trigger, which also requires the note
       const { error } = await supabase
         .from("incidents")
-        .update({ 
-          status: status as any,
-          resolved_at: status === "resolved" ? new Date().toISOString() : null
+        .update({
+          status,
+          ...(requiresResolutionNotes(status) && { resolution_notes: note }),
+          ...(requiresReopenReason(incident.status) && { reopen_reason: note }),
         })
         .eq("id", incidentId);
 
       if (error) throw error;
 
+      let content = `Status changed from ${STATUS_LABELS[incident.status]} to ${STATUS_LABELS[status]}`;
+      if (requiresResolutionNotes(status)) {
+        content += `\nResolution notes: ${note}`;
+      } else if (requiresReopenReason(incident.status)) {
+        content += `\nReopen reason: ${note}`;
+      }
+
       // Add update entry
       const { data: { user } } = await supabase.auth.getUser();
       await supabase.from("incident_updates").insert({
         incident_id: incidentId,
         user_id: user?.id,
         update_type: "status_change",
-        content: `Status changed to: ${status}`,
+        content,
       });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["incident", incidentId] });
       queryClient.invalidateQueries({ queryKey: ["incident-updates", incidentId] });
       queryClient.invalidateQueries({ queryKey: ["incidents"] });
+      setPendingStatus(null);
+      setTransitionNote("");
       toast({ title: "Status updated" });
     },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
   });
 
-  const addUpdate = useMutation({
-    mutationFn: async () => {
+  const handleStatusSelect = (status: IncidentStatus) => {
+    if (status === incident.status) return;
+    if (requiresResolutionNotes(status) || requiresReopenReason(incident.status)) {
+      setPendingStatus(status);
+      setTransitionNote("");
+      return;
+    }
+    updateStatus.mutate({ status });
+  };
+
+  const updateAssignee = useMutation({
+    mutationFn: async (assigneeId: string | null) => {
+      const { error } = await supabase
+        .from("incidents")
+        .update({ assigned_to: assigneeId })
+        .eq("id", incidentId);
+
+      if (error) throw error;
+
+      const assignee = profiles?.find((p) => p.id === assigneeId);
+      let content = `Unassigned from ${incident?.assigned?.full_name}`;
+      if (assignee) {
+        content = incident?.assigned
+          ? `Reassigned from ${incident.assigned.full_name} to ${assignee.full_name}`
+          : `Assigned to ${assignee.full_name}`;
+      }
+
+      // Add update entry
       const { data: { user } } = await supabase.auth.getUser();
-      const { error } = await supabase.from("incident_updates").insert({
+      const { error: updateError } = await supabase.from("incident_updates").insert({
         incident_id: incidentId,
         user_id: user?.id,
-        update_type: "comment",
-        content: newUpdate,
+        update_type: "assignment",
+        content,
       });
 
+      if (updateError) throw updateError;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["incident", incidentId] });
+      queryClient.invalidateQueries({ queryKey: ["incident-updates", incidentId] });
+      queryClient.invalidateQueries({ queryKey: ["incidents"] });
+      toast({ title: "Assignee updated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const saveEdits = useMutation({
+    mutationFn: async (values: IncidentFieldValues) => {
+      const changed = EDITABLE_FIELDS.filter((field) => values[field] !== incident[field]);
+      const pinChanged =
+        values.floor_plan_id !== incident.floor_plan_id ||
+        (!!values.floor_plan_id && (values.plan_x !== incident.plan_x || values.plan_y !== incident.plan_y));
+      if (changed.length === 0 && !pinChanged) return;
+
+      const { error } = await supabase
+        .from("incidents")
+        .update({
+          ...(Object.fromEntries(changed.map((field) => [field, values[field]])) as Partial<IncidentFieldValues>),
+          // The location path is derived from the registry entry, so both move together
+          ...(changed.includes("location") && { location_id: values.location_id }),
+          ...(pinChanged && { floor_plan_id: values.floor_plan_id, plan_x: values.plan_x, plan_y: values.plan_y }),
+        })
+        .eq("id", incidentId);
+
+      // The timeline entries for each edited field are written by a database trigger
       if (error) throw error;
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["incident", incidentId] });
       queryClient.invalidateQueries({ queryKey: ["incident-updates", incidentId] });
+      queryClient.invalidateQueries({ queryKey: ["incidents"] });
+      setEditValues(null);
+      toast({ title: "Incident updated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const verifyTimeline = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase
+        .from("incident_updates")
+        .select(TIMELINE_CHAIN_COLUMNS)
+        .eq("incident_id", incidentId);
+
+      if (error) throw error;
+      return verifyTimelineChain(data);
+    },
+    onSuccess: setTimelineIntegrity,
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const addUpdate = useMutation({
+    mutationFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from("incident_updates")
+        .insert({
+          incident_id: incidentId,
+          user_id: user?.id,
+          update_type: "comment",
+          content: newUpdate.trim() || `Attached ${attachments.map((file) => file.name).join(", ")}`,
+        })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      if (attachments.length > 0) {
+        setAttachmentProgress(0);
+        await uploadEvidenceFiles(incidentId, attachments, user.id, {
+          incidentUpdateId: data.id,
+          stripExif,
+          onProgress: setAttachmentProgress,
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["incident-updates", incidentId] });
+      queryClient.invalidateQueries({ queryKey: ["evidence-items", incidentId] });
       setNewUpdate("");
+      setAttachments([]);
+      setAttachmentProgress(null);
       toast({ title: "Update added" });
     },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["incident-updates", incidentId] });
+      setAttachmentProgress(null);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
   });
 
-  if (!incident) return null;
+  if (!incident) {
+    return (
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{isLoading ? "Loading incident..." : "Incident not found"}</DialogTitle>
+            {!isLoading && (
+              <DialogDescription>
+                This incident does not exist or you do not have access to it.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {!isLoading && (
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Back to incidents
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    );
+  }
 
   const getPriorityColor = (priority: string) => {
     switch (priority) {
@@ -158,34 +353,151 @@ export const IncidentDetails = ({ incidentId, open, onOpenChange }: IncidentDeta
         <DialogHeader>
           <div className="flex items-start justify-between gap-4">
             <DialogTitle className="text-2xl">{incident.title}</DialogTitle>
-            <Badge className={getPriorityColor(incident.priority)}>
-              {incident.priority}
-            </Badge>
+            <div className="flex items-center gap-2 shrink-0">
+              <Badge className={getPriorityColor(incident.priority)}>
+                {incident.priority}
+              </Badge>
+              {can("edit_incident") && !editValues && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setEditValues({
+                      title: incident.title,
+                      description: incident.description,
+                      priority: incident.priority,
+                      category: incident.category,
+                      location: incident.location,
+                      location_id: incident.location_id,
+                      floor_plan_id: incident.floor_plan_id,
+                      plan_x: incident.plan_x,
+                      plan_y: incident.plan_y,
+                    })
+                  }
+                >
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Edit
+                </Button>
+              )}
+            </div>
           </div>
+          {can("view_audit_log") && (
+            <Link
+              to={`/audit?incident=${incidentId}`}
+              className="flex items-center gap-1 text-xs text-primary hover:underline w-fit"
+            >
+              <ScrollText className="w-3 h-3" />
+              View audit log
+            </Link>
+          )}
         </DialogHeader>
 
         <div className="space-y-6">
-          {/* Status Update */}
-          <div className="flex gap-2">
-            <Select 
-              value={statusUpdate || incident.status} 
-              onValueChange={(value) => {
-                const typedValue = value as "open" | "in_progress" | "resolved" | "closed";
-                setStatusUpdate(typedValue);
-                updateStatus.mutate(typedValue);
-              }}
+          {/* Edit Fields */}
+          {editValues && (
+            <form
+              onSubmit={(e) => { e.preventDefault(); saveEdits.mutate(editValues); }}
+              className="border rounded-lg p-3 space-y-4"
             >
-              <SelectTrigger className="flex-1">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="open">Open</SelectItem>
-                <SelectItem value="in_progress">In Progress</SelectItem>
-                <SelectItem value="resolved">Resolved</SelectItem>
-                <SelectItem value="closed">Closed</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+              <IncidentFields
+                values={editValues}
+                onChange={(changes) => setEditValues((current) => ({ ...current, ...changes }))}
+                idPrefix="edit-"
+              />
+              <div className="flex gap-2 justify-end">
+                <Button type="button" variant="outline" onClick={() => setEditValues(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveEdits.isPending}>
+                  {saveEdits.isPending ? "Saving..." : "Save changes"}
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {/* Status & Assignment */}
+          {(can("update_status") || can("assign_incident")) && (
+            <div className="flex gap-2">
+              {can("update_status") && (
+                <Select
+                  value={pendingStatus ?? incident.status}
+                  onValueChange={(value) => handleStatusSelect(value as IncidentStatus)}
+                  disabled={updateStatus.isPending}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={incident.status}>{STATUS_LABELS[incident.status]}</SelectItem>
+                    {getAllowedTransitions(incident.status).map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {can("assign_incident") && (
+                <Select
+                  value={incident.assigned_to ?? "unassigned"}
+                  onValueChange={(value) => {
+                    const assigneeId = value === "unassigned" ? null : value;
+                    if (assigneeId !== incident.assigned_to) {
+                      updateAssignee.mutate(assigneeId);
+                    }
+                  }}
+                  disabled={updateAssignee.isPending}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Assign to..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                    {profiles?.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.full_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+
+          {pendingStatus && (
+            <div className="border rounded-lg p-3 space-y-2">
+              <h3 className="text-sm font-semibold">
+                {requiresResolutionNotes(pendingStatus) ? "Resolution notes" : "Reason for reopening"}
+              </h3>
+              <Textarea
+                placeholder={
+                  requiresResolutionNotes(pendingStatus)
+                    ? "Describe how the incident was resolved..."
+                    : "Why is this incident being reopened?"
+                }
+                value={transitionNote}
+                onChange={(e) => setTransitionNote(e.target.value)}
+                rows={3}
+              />
+              <div className="flex gap-2 justify-end">
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setPendingStatus(null);
+                    setTransitionNote("");
+                  }}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => updateStatus.mutate({ status: pendingStatus, note: transitionNote.trim() })}
+                  disabled={!transitionNote.trim() || updateStatus.isPending}
+                >
+                  Move to {STATUS_LABELS[pendingStatus]}
+                </Button>
+              </div>
+            </div>
+          )}
 
           {/* Incident Details */}
           <div className="grid grid-cols-2 gap-4 text-sm">
@@ -198,6 +510,14 @@ export const IncidentDetails = ({ incidentId, open, onOpenChange }: IncidentDeta
               <MapPin className="w-4 h-4 text-muted-foreground" />
               <span className="text-muted-foreground">Location:</span>
               <span>{incident.location}</span>
+              {incident.reported_location && (
+                <span className="text-muted-foreground">Reported as "{incident.reported_location}"</span>
+              )}
+              {pinnedPlan && (
+                <Link to={`/map?building=${pinnedPlan.location_id}`} className="text-primary hover:underline">
+                  View on map
+                </Link>
+              )}
             </div>
             <div className="flex items-center gap-2">
               <User className="w-4 h-4 text-muted-foreground" />
@@ -205,8 +525,29 @@ export const IncidentDetails = ({ incidentId, open, onOpenChange }: IncidentDeta
               <span>{incident.reporter?.full_name}</span>
             </div>
             <div className="flex items-center gap-2">
-              <Badge variant="secondary">{incident.category}</Badge>
+              <UserCheck className="w-4 h-4 text-muted-foreground" />
+              <span className="text-muted-foreground">Assigned:</span>
+              <span>{incident.assigned?.full_name ?? "Unassigned"}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <CategoryBadge slug={incident.category} />
+              {incident.legacy_category && (
+                <span className="text-muted-foreground">Reported as "{incident.legacy_category}"</span>
+              )}
             </div>
+            {incident.escalated_at && (
+              <div className="flex items-center gap-2 col-span-2 text-destructive">
+                <Siren className="w-4 h-4" />
+                <span>Escalated{incident.escalated ? ` to ${incident.escalated.full_name}` : ""}:</span>
+                <span>{format(new Date(incident.escalated_at), "PPp")}</span>
+              </div>
+            )}
+          </div>
+
+          {/* SLA */}
+          <div className="space-y-2">
+            <h3 className="font-semibold">SLA</h3>
+            <SlaIndicator incident={incident} detailed />
           </div>
 
           {/* Description */}
@@ -215,56 +556,99 @@ export const IncidentDetails = ({ incidentId, open, onOpenChange }: IncidentDeta
             <p className="text-muted-foreground whitespace-pre-wrap">{incident.description}</p>
           </div>
 
-          {/* Evidence */}
-          {incident.evidence_urls && incident.evidence_urls.length > 0 && (
+          {/* Resolution */}
+          {incident.resolution_notes && (
             <div className="space-y-2">
-              <h3 className="font-semibold">Evidence</h3>
-              <div className="grid grid-cols-2 gap-2">
-                {incident.evidence_urls.map((url: string, index: number) => (
-                  <img
-                    key={index}
-                    src={url}
-                    alt={`Evidence ${index + 1}`}
-                    className="rounded-lg border w-full h-48 object-cover"
-                  />
-                ))}
-              </div>
+              <h3 className="font-semibold">Resolution</h3>
+              <p className="text-muted-foreground whitespace-pre-wrap">{incident.resolution_notes}</p>
             </div>
           )}
 
+          <EvidenceSection incidentId={incidentId} />
+
           {/* Updates Timeline */}
           <div className="space-y-3">
-            <h3 className="font-semibold flex items-center gap-2">
-              <MessageSquare className="w-4 h-4" />
-              Updates & Comments
-            </h3>
-            
-            <div className="space-y-2">
-              <Textarea
-                placeholder="Add an update or comment..."
-                value={newUpdate}
-                onChange={(e) => setNewUpdate(e.target.value)}
-                rows={3}
-              />
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="font-semibold flex items-center gap-2">
+                <MessageSquare className="w-4 h-4" />
+                Updates & Comments
+              </h3>
               <Button
-                onClick={() => addUpdate.mutate()}
-                disabled={!newUpdate.trim() || addUpdate.isPending}
+                variant="outline"
+                size="sm"
+                onClick={() => verifyTimeline.mutate()}
+                disabled={verifyTimeline.isPending}
               >
-                Add Update
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                {verifyTimeline.isPending ? "Verifying..." : "Verify timeline integrity"}
               </Button>
             </div>
 
+            {timelineIntegrity && (
+              <Alert variant={timelineIntegrity.valid ? "default" : "destructive"}>
+                {timelineIntegrity.valid ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+                <AlertTitle>
+                  {timelineIntegrity.valid ? "Timeline intact" : `Timeline broken at entry ${timelineIntegrity.brokenAt}`}
+                </AlertTitle>
+                <AlertDescription>
+                  {timelineIntegrity.valid
+                    ? `All ${timelineIntegrity.entries} entries match their recorded hashes and links.`
+                    : timelineIntegrity.reason}
+                </AlertDescription>
+              </Alert>
+            )}
+            
+            {can("comment") && (
+              <div className="space-y-2">
+                <Textarea
+                  placeholder="Add an update or comment..."
+                  value={newUpdate}
+                  onChange={(e) => setNewUpdate(e.target.value)}
+                  rows={3}
+                />
+                <EvidenceDropzone
+                  id="update-attachments"
+                  files={attachments}
+                  onFilesChange={setAttachments}
+                  progress={attachmentProgress}
+                  disabled={addUpdate.isPending}
+                  compact
+                  stripExif={stripExif}
+                  onStripExifChange={setStripExif}
+                />
+                <Button
+                  onClick={() => addUpdate.mutate()}
+                  disabled={(!newUpdate.trim() && attachments.length === 0) || addUpdate.isPending}
+                >
+                  Add Update
+                </Button>
+              </div>
+            )}
+
             <div className="space-y-3 mt-4">
               {updates?.map((update) => (
                 <div key={update.id} className="border rounded-lg p-3 space-y-1">
                   <div className="flex items-center justify-between text-xs text-muted-foreground">
-                    <span className="font-medium">{update.user?.full_name}</span>
+                    <span className="font-medium">{update.user?.full_name ?? "System"}</span>
                     <span className="flex items-center gap-1">
                       <Clock className="w-3 h-3" />
                       {format(new Date(update.created_at), "PPp")}
                     </span>
                   </div>
-                  <p className="text-sm">{update.content}</p>
+                  <p className="text-sm whitespace-pre-wrap">{update.content}</p>
+                  {update.attachments.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {update.attachments.map((attachment) => (
+                        <span
+                          key={attachment.id}
+                          className={`flex items-center gap-1 text-xs text-muted-foreground ${attachment.removed_at ? "line-through" : ""}`}
+                        >
+                          <Paperclip className="w-3 h-3" />
+                          {attachment.original_filename}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                   <Badge variant="outline" className="text-xs">{update.update_type}</Badge>
                 </div>
               ))}
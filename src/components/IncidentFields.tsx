@@ -0,0 +1,190 @@
+import { ReactNode, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useCategories } from "@/hooks/use-categories";
+import { useLocations } from "@/hooks/use-locations";
+import { useFloorPlans } from "@/hooks/use-floor-plans";
+import { findFloorPlan } from "@/lib/floor-plans";
+import {
+  Category,
+  getCategoryIcon,
+  getRootCategory,
+  getSubcategories,
+  getTopLevelCategories,
+} from "@/lib/incident-categories";
+import { IncidentFieldValues, NO_PLAN_PIN } from "@/lib/incident-fields";
+import { hasLocationRegistry, indexLocations } from "@/lib/locations";
+import { LocationPicker } from "./LocationPicker";
+import { FloorPlanCanvas, PlanMarker } from "./FloorPlanCanvas";
+
+interface IncidentFieldsProps {
+  values: IncidentFieldValues;
+  onChange: (changes: Partial<IncidentFieldValues>) => void;
+  // Prefixes input ids so the fields can appear in more than one open dialog
+  idPrefix?: string;
+  // Rendered under the location input, e.g. a suggestion taken from photo metadata
+  locationHint?: ReactNode;
+}
+
+/** The editable incident fields shared by the report form and the edit mode in incident details. */
+export const IncidentFields = ({ values, onChange, idPrefix = "", locationHint }: IncidentFieldsProps) => {
+  const { can } = usePermissions();
+  const { data: categories = [] } = useCategories();
+  const { data: locations } = useLocations();
+  const { data: floorPlans } = useFloorPlans();
+  const index = useMemo(() => indexLocations(locations), [locations]);
+  const floorPlan = findFloorPlan(floorPlans, index, values.location_id);
+  const isPinned = !!floorPlan && values.floor_plan_id === floorPlan.id && values.plan_x != null;
+
+  // Inactive categories are hidden from new choices but stay visible on incidents that use them
+  const isOffered = (category: Category) => category.is_active || category.slug === values.category;
+  const parent = getRootCategory(categories, values.category);
+  const topLevel = getTopLevelCategories(categories).filter((c) => isOffered(c) || c.id === parent?.id);
+  const subcategories = parent ? getSubcategories(categories, parent.id).filter(isOffered) : [];
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}title`}>Incident Title</Label>
+        <Input
+          id={`${idPrefix}title`}
+          value={values.title}
+          onChange={(e) => onChange({ title: e.target.value })}
+          placeholder="Brief description of the incident"
+          required
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {can("set_priority") && (
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}priority`}>Priority</Label>
+            <Select
+              value={values.priority}
+              onValueChange={(value: IncidentFieldValues["priority"]) => onChange({ priority: value })}
+            >
+              <SelectTrigger id={`${idPrefix}priority`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+                <SelectItem value="critical">Critical</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}category`}>Category</Label>
+          <Select
+            value={parent?.slug ?? ""}
+            onValueChange={(value) => onChange({ category: value })}
+          >
+            <SelectTrigger id={`${idPrefix}category`}>
+              <SelectValue placeholder="Select category" />
+            </SelectTrigger>
+            <SelectContent>
+              {topLevel.map((c) => {
+                const Icon = getCategoryIcon(c.icon);
+                return (
+                  <SelectItem key={c.id} value={c.slug}>
+                    <span className="flex items-center gap-2">
+                      <Icon className="w-4 h-4 text-muted-foreground" />
+                      {c.name}
+                    </span>
+                  </SelectItem>
+                );
+              })}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {subcategories.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}subcategory`}>Subcategory</Label>
+            <Select value={values.category} onValueChange={(value) => onChange({ category: value })}>
+              <SelectTrigger id={`${idPrefix}subcategory`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={parent.slug}>General</SelectItem>
+                {subcategories.map((c) => (
+                  <SelectItem key={c.id} value={c.slug}>
+                    {c.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}location`}>Location</Label>
+        {hasLocationRegistry(locations) ? (
+          <LocationPicker
+            id={`${idPrefix}location`}
+            value={values.location_id}
+            fallbackLabel={values.location}
+            onChange={(location, path) =>
+              onChange({
+                location_id: location.id,
+                location: path,
+                // A pin only makes sense on the plan of the building it was placed on
+                ...(findFloorPlan(floorPlans, index, location.id)?.id !== values.floor_plan_id && NO_PLAN_PIN),
+              })
+            }
+          />
+        ) : (
+          // Free text until an admin has set up the location registry
+          <Input
+            id={`${idPrefix}location`}
+            value={values.location}
+            onChange={(e) => onChange({ location: e.target.value })}
+            placeholder="Building, floor, room number"
+            required
+          />
+        )}
+        {locationHint}
+      </div>
+
+      {floorPlan && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Position on floor plan (optional)</Label>
+            {isPinned && (
+              <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => onChange(NO_PLAN_PIN)}>
+                Remove pin
+              </Button>
+            )}
+          </div>
+          <FloorPlanCanvas
+            plan={floorPlan}
+            onSelect={(pin) => onChange({ floor_plan_id: floorPlan.id, plan_x: pin.x, plan_y: pin.y })}
+          >
+            {isPinned && <PlanMarker x={values.plan_x} y={values.plan_y} priority={values.priority} />}
+          </FloorPlanCanvas>
+          <p className="text-xs text-muted-foreground">Click the plan to mark where the incident happened</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}description`}>Description</Label>
+        <Textarea
+          id={`${idPrefix}description`}
+          value={values.description}
+          onChange={(e) => onChange({ description: e.target.value })}
+          placeholder="Detailed description of the incident..."
+          rows={5}
+          required
+        />
+      </div>
+    </>
+  );
+};
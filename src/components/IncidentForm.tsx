@@ -1,14 +1,19 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Upload, X } from "lucide-react";
+import { useCategories } from "@/hooks/use-categories";
+import { useLocations } from "@/hooks/use-locations";
+import { STRIP_EXIF_DEFAULT, uploadEvidenceFiles } from "@/lib/evidence";
+import { formatCoordinates, readExif } from "@/lib/exif";
+import { EMPTY_INCIDENT_FIELDS, IncidentFieldValues, NO_PLAN_PIN } from "@/lib/incident-fields";
+import { findNearestLocation, getLocationPath, hasLocationRegistry, indexLocations } from "@/lib/locations";
+import { EvidenceDropzone } from "./EvidenceDropzone";
+import { IncidentFields } from "./IncidentFields";
+import { MapPin } from "lucide-react";
 
 interface IncidentFormProps {
   open: boolean;
@@ -16,65 +21,69 @@ interface IncidentFormProps {
 }
 
 export const IncidentForm = ({ open, onOpenChange }: IncidentFormProps) => {
-  const [title, setTitle] = useState("");
-  const [description, setDescription] = useState("");
-  const [priority, setPriority] = useState<"low" | "medium" | "high" | "critical">("medium");
-  const [category, setCategory] = useState("");
-  const [location, setLocation] = useState("");
+  const [fields, setFields] = useState<IncidentFieldValues>(EMPTY_INCIDENT_FIELDS);
+  const [priorityTouched, setPriorityTouched] = useState(false);
   const [files, setFiles] = useState<File[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [stripExif, setStripExif] = useState(STRIP_EXIF_DEFAULT);
+  const [photoLocation, setPhotoLocation] = useState<Pick<IncidentFieldValues, "location" | "location_id"> | null>(null);
+  const photoLocationRead = useRef(0);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { data: categories } = useCategories();
+  const { data: locations } = useLocations();
 
   const createIncident = useMutation({
     mutationFn: async () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
-
-      // Upload files if any
-      const evidenceUrls: string[] = [];
-      for (const file of files) {
-        const fileExt = file.name.split(".").pop();
-        const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-        const { error: uploadError } = await supabase.storage
-          .from("incident-evidence")
-          .upload(fileName, file);
-
-        if (uploadError) throw uploadError;
-        
-        const { data: { publicUrl } } = supabase.storage
-          .from("incident-evidence")
-          .getPublicUrl(fileName);
-        
-        evidenceUrls.push(publicUrl);
-      }
+      if (!categories?.some((category) => category.slug === fields.category)) throw new Error("Choose a category");
+      if (hasLocationRegistry(locations) && !fields.location_id) throw new Error("Choose a location from the list");
 
       const { data, error } = await supabase
         .from("incidents")
         .insert({
-          title,
-          description,
-          priority,
-          category,
-          location,
+          ...fields,
           reporter_id: user.id,
-          evidence_urls: evidenceUrls,
         })
         .select()
         .single();
 
       if (error) throw error;
-      return data;
+
+      // Each file is hashed before upload and recorded with its custody metadata. The incident
+      // exists by now, so a failed upload must not leave the form open for a duplicate report.
+      let evidenceError: Error | null = null;
+      if (files.length > 0) {
+        setUploadProgress(0);
+        try {
+          await uploadEvidenceFiles(data.id, files, user.id, { stripExif, onProgress: setUploadProgress });
+        } catch (uploadError) {
+          evidenceError = uploadError as Error;
+        }
+      }
+
+      return { incident: data, evidenceError };
     },
-    onSuccess: () => {
+    onSuccess: ({ evidenceError }) => {
       queryClient.invalidateQueries({ queryKey: ["incidents"] });
-      toast({
-        title: "Incident reported",
-        description: "The incident has been successfully reported.",
-      });
+      if (evidenceError) {
+        toast({
+          variant: "destructive",
+          title: "Incident reported without all evidence",
+          description: `${evidenceError.message}. Add the missing files from the incident details.`,
+        });
+      } else {
+        toast({
+          title: "Incident reported",
+          description: "The incident has been successfully reported.",
+        });
+      }
       onOpenChange(false);
       resetForm();
     },
     onError: (error: any) => {
+      setUploadProgress(null);
       toast({
         variant: "destructive",
         title: "Error",
@@ -84,22 +93,50 @@ export const IncidentForm = ({ open, onOpenChange }: IncidentFormProps) => {
   });
 
   const resetForm = () => {
-    setTitle("");
-    setDescription("");
-    setPriority("medium");
-    setCategory("");
-    setLocation("");
+    setFields(EMPTY_INCIDENT_FIELDS);
+    setPriorityTouched(false);
     setFiles([]);
+    setUploadProgress(null);
+    setStripExif(STRIP_EXIF_DEFAULT);
+    setPhotoLocation(null);
+    photoLocationRead.current++;
+  };
+
+  // Picking a category applies its default priority until one is chosen explicitly
+  const handleFieldsChange = (changes: Partial<IncidentFieldValues>) => {
+    if (changes.priority) setPriorityTouched(true);
+    const category = changes.category && categories?.find((c) => c.slug === changes.category);
+    setFields((current) => ({
+      ...current,
+      ...changes,
+      ...(category && !priorityTouched && { priority: category.default_priority }),
+    }));
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) {
-      setFiles(Array.from(e.target.files));
+  // With a registry the nearest registered location is offered, otherwise the raw coordinates
+  const getPhotoLocation = (latitude: number, longitude: number) => {
+    if (!hasLocationRegistry(locations)) {
+      return { location: formatCoordinates(latitude, longitude), location_id: null };
     }
+    const nearest = findNearestLocation(locations, latitude, longitude);
+    return nearest ? { location: getLocationPath(indexLocations(locations), nearest.id), location_id: nearest.id } : null;
   };
 
-  const removeFile = (index: number) => {
-    setFiles(files.filter((_, i) => i !== index));
+  // Offer the GPS position of the first geotagged photo as the incident location. Reading
+  // is async, so a later change of files supersedes any read still in progress.
+  const handleFilesChange = async (nextFiles: File[]) => {
+    setFiles(nextFiles);
+    const read = ++photoLocationRead.current;
+    let location: Pick<IncidentFieldValues, "location" | "location_id"> | null = null;
+    for (const file of nextFiles) {
+      const exif = await readExif(file).catch(() => null);
+      if (read !== photoLocationRead.current) return;
+      if (exif?.latitude != null && exif.longitude != null) {
+        location = getPhotoLocation(exif.latitude, exif.longitude);
+        break;
+      }
+    }
+    setPhotoLocation(location);
   };
 
   return (
@@ -113,115 +150,39 @@ export const IncidentForm = ({ open, onOpenChange }: IncidentFormProps) => {
         </DialogHeader>
 
         <form onSubmit={(e) => { e.preventDefault(); createIncident.mutate(); }} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="title">Incident Title</Label>
-            <Input
-              id="title"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              placeholder="Brief description of the incident"
-              required
-            />
-          </div>
-
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="priority">Priority</Label>
-              <Select value={priority} onValueChange={(value: any) => setPriority(value)}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="low">Low</SelectItem>
-                  <SelectItem value="medium">Medium</SelectItem>
-                  <SelectItem value="high">High</SelectItem>
-                  <SelectItem value="critical">Critical</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="category">Category</Label>
-              <Select value={category} onValueChange={setCategory}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select category" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="theft">Theft</SelectItem>
-                  <SelectItem value="unauthorized_access">Unauthorized Access</SelectItem>
-                  <SelectItem value="fire">Fire Alarm</SelectItem>
-                  <SelectItem value="medical">Medical Emergency</SelectItem>
-                  <SelectItem value="vandalism">Vandalism</SelectItem>
-                  <SelectItem value="suspicious_activity">Suspicious Activity</SelectItem>
-                  <SelectItem value="other">Other</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
+          <IncidentFields
+            values={fields}
+            onChange={handleFieldsChange}
+            locationHint={
+              photoLocation &&
+              fields.location !== photoLocation.location && (
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={() => setFields((current) => ({ ...current, ...photoLocation, ...NO_PLAN_PIN }))}
+                >
+                  <MapPin className="w-3 h-3 mr-1" />
+                  Use photo location ({photoLocation.location})
+                </Button>
+              )
+            }
+          />
 
           <div className="space-y-2">
-            <Label htmlFor="location">Location</Label>
-            <Input
-              id="location"
-              value={location}
-              onChange={(e) => setLocation(e.target.value)}
-              placeholder="Building, floor, room number"
-              required
+            <Label htmlFor="evidence">Evidence (Photos, Video, Audio, Documents)</Label>
+            <EvidenceDropzone
+              id="evidence"
+              files={files}
+              onFilesChange={handleFilesChange}
+              progress={uploadProgress}
+              disabled={createIncident.isPending}
+              stripExif={stripExif}
+              onStripExifChange={setStripExif}
             />
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="description">Description</Label>
-            <Textarea
-              id="description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Detailed description of the incident..."
-              rows={5}
-              required
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="evidence">Evidence (Photos/Documents)</Label>
-            <div className="border-2 border-dashed rounded-lg p-6 text-center hover:border-primary/50 transition-colors">
-              <input
-                id="evidence"
-                type="file"
-                multiple
-                accept="image/*"
-                onChange={handleFileChange}
-                className="hidden"
-              />
-              <label htmlFor="evidence" className="cursor-pointer">
-                <Upload className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
-                <p className="text-sm text-muted-foreground">
-                  Click to upload or drag and drop
-                </p>
-                <p className="text-xs text-muted-foreground mt-1">
-                  PNG, JPG up to 10MB each
-                </p>
-              </label>
-            </div>
-            {files.length > 0 && (
-              <div className="space-y-2 mt-2">
-                {files.map((file, index) => (
-                  <div key={index} className="flex items-center justify-between p-2 bg-muted rounded">
-                    <span className="text-sm truncate">{file.name}</span>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeFile(index)}
-                    >
-                      <X className="w-4 h-4" />
-                    </Button>
-                  </div>
-                ))}
-              </div>
-            )}
-          </div>
-
           <div className="flex gap-2 justify-end">
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
@@ -1,68 +1,248 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { Fragment, useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { useDebounce } from "@/hooks/use-debounce";
+import { useIncidentsRealtime } from "@/hooks/use-incidents-realtime";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import { useAssignableProfiles } from "@/hooks/use-profiles";
+import { useCategories } from "@/hooks/use-categories";
+import { getCategoryFamily, getSubcategories, getTopLevelCategories } from "@/lib/incident-categories";
+import { parseSearchQuery, validEnum } from "@/lib/search-query";
+import { cn } from "@/lib/utils";
 import { IncidentDetails } from "./IncidentDetails";
-import { AlertCircle, Search, Clock } from "lucide-react";
-import { formatDistanceToNow } from "date-fns";
+import { SlaIndicator } from "./SlaIndicator";
+import { CategoryBadge } from "./CategoryBadge";
+import { HighlightedText } from "./HighlightedText";
+import { AlertCircle, Search, Clock, Siren } from "lucide-react";
+import { endOfDay, formatDistanceToNow, parseISO, startOfDay } from "date-fns";
+
+const PAGE_SIZE = 12;
+const FLASH_DURATION_MS = 10_000;
+
+const INCIDENT_LIST_COLUMNS = `*,
+  reporter:profiles!incidents_reporter_id_fkey(full_name, email),
+  assigned:profiles!incidents_assigned_to_fkey(full_name, email)`;
+
+interface SearchHighlight {
+  title: string;
+  snippet: string;
+}
+
+const SORT_OPTIONS = {
+  newest: { column: "created_at", ascending: false },
+  oldest: { column: "created_at", ascending: true },
+  priority: { column: "priority", ascending: false },
+  updated: { column: "updated_at", ascending: false },
+} as const;
+
+type SortOption = keyof typeof SORT_OPTIONS;
+
+// Page numbers to render, with null marking an ellipsis
+const getPageNumbers = (page: number, totalPages: number): (number | null)[] => {
+  const pages = new Set([1, totalPages, page - 1, page, page + 1]);
+  const visible = [...pages].filter((p) => p >= 1 && p <= totalPages).sort((a, b) => a - b);
+  return visible.flatMap((p, i) => (i > 0 && p - visible[i - 1] > 1 ? [null, p] : [p]));
+};
 
 export const IncidentList = () => {
-  const [selectedIncidentId, setSelectedIncidentId] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [priorityFilter, setPriorityFilter] = useState<string>("all");
+  const { incidentId: selectedIncidentId } = useParams();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [searchQuery, setSearchQuery] = useState(searchParams.get("q") ?? "");
+  const debouncedSearch = useDebounce(searchQuery.trim());
+  const { user, can } = usePermissions();
+  const { data: assignees } = useAssignableProfiles(can("assign_incident"));
+  const { data: categories, isPending: isCategoriesPending } = useCategories();
+  const [flashingIds, setFlashingIds] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
 
-  const { data: incidents, isLoading } = useQuery({
-    queryKey: ["incidents"],
-    queryFn: async () => {
-      const { data: incidentsData, error } = await supabase
-        .from("incidents")
-        .select("*")
-        .order("created_at", { ascending: false });
+  // Newly reported critical incidents are announced and highlighted for a few seconds
+  useIncidentsRealtime("list", {
+    onInsert: (incident) => {
+      if (incident.priority !== "critical") return;
+      toast({
+        variant: "destructive",
+        title: "New critical incident",
+        description: incident.title,
+      });
+      setFlashingIds((ids) => new Set(ids).add(incident.id));
+      window.setTimeout(() => {
+        setFlashingIds((ids) => {
+          const next = new Set(ids);
+          next.delete(incident.id);
+          return next;
+        });
+      }, FLASH_DURATION_MS);
+    },
+  });
 
-      if (error) throw error;
+  // Filter state lives in the URL so filtered views can be shared and bookmarked
+  const searchParam = searchParams.get("q") ?? "";
+  const statusFilter = searchParams.get("status") ?? "all";
+  const priorityFilter = searchParams.get("priority") ?? "all";
+  const categoryFilter = searchParams.get("category") ?? "all";
+  const assignmentFilter = searchParams.get("assignee") ?? "all";
+  const dateFrom = searchParams.get("from") ?? "";
+  const dateTo = searchParams.get("to") ?? "";
+  const sortParam = searchParams.get("sort");
+  const sortBy: SortOption = sortParam && sortParam in SORT_OPTIONS ? (sortParam as SortOption) : "newest";
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
 
-      // Fetch reporter profiles for all incidents
-      const incidentsWithProfiles = await Promise.all(
-        (incidentsData || []).map(async (incident) => {
-          const { data: reporterData } = await supabase
-            .from("profiles")
-            .select("full_name, email")
-            .eq("id", incident.reporter_id)
-            .single();
-
-          let assignedData = null;
-          if (incident.assigned_to) {
-            const { data } = await supabase
-              .from("profiles")
-              .select("full_name, email")
-              .eq("id", incident.assigned_to)
-              .single();
-            assignedData = data;
+  // Empty and "all" values are dropped from the URL; any filter change goes back to the first page
+  const updateParams = useCallback(
+    (updates: Record<string, string | null>, resetPage = true) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          for (const [key, value] of Object.entries(updates)) {
+            if (!value || value === "all") next.delete(key);
+            else next.set(key, value);
           }
-
-          return {
-            ...incident,
-            reporter: reporterData,
-            assigned: assignedData,
-          };
-        })
+          if (resetPage) next.delete("page");
+          return next;
+        },
+        { replace: true }
       );
+    },
+    [setSearchParams]
+  );
+
+  const setPage = (value: number) => updateParams({ page: value > 1 ? String(value) : null }, false);
 
-      return incidentsWithProfiles;
+  // Only settled search input is pushed to the URL, and only once per settled value, so
+  // back/forward navigation is not overwritten by the input it is about to replace
+  const pushedSearch = useRef(debouncedSearch);
+  useEffect(() => {
+    if (debouncedSearch === pushedSearch.current) return;
+    pushedSearch.current = debouncedSearch;
+    if (debouncedSearch !== searchParam) updateParams({ q: debouncedSearch });
+  }, [debouncedSearch, searchParam, updateParams]);
+
+  // Keep the input in step with back/forward navigation
+  const [syncedSearchParam, setSyncedSearchParam] = useState(searchParam);
+  if (searchParam !== syncedSearchParam) {
+    setSyncedSearchParam(searchParam);
+    if (searchParam !== searchQuery.trim()) setSearchQuery(searchParam);
+  }
+
+  const filters = {
+    search: searchParam,
+    status: statusFilter,
+    priority: priorityFilter,
+    category: categoryFilter,
+    assignment: assignmentFilter,
+    dateFrom,
+    dateTo,
+    sortBy,
+  };
+
+  const { data, isLoading, isFetching } = useQuery({
+    queryKey: ["incidents", filters, page],
+    queryFn: async () => {
+      // Field filters typed into the search box take precedence over the dropdowns
+      const parsed = parseSearchQuery(filters.search);
+      const status = validEnum("incident_status", parsed.fields.status ?? filters.status);
+      const priority = validEnum("incident_priority", parsed.fields.priority ?? filters.priority);
+      const category = parsed.fields.category ?? (filters.category !== "all" ? filters.category : null);
+      const location = parsed.fields.location ?? null;
+      const unassigned = filters.assignment === "unassigned";
+      let assignedTo: string | null = null;
+      if (filters.assignment === "mine") {
+        assignedTo = user?.id;
+      } else if (filters.assignment !== "all" && !unassigned) {
+        assignedTo = filters.assignment;
+      }
+      const createdFrom = filters.dateFrom ? startOfDay(parseISO(filters.dateFrom)).toISOString() : null;
+      const createdTo = filters.dateTo ? endOfDay(parseISO(filters.dateTo)).toISOString() : null;
+      const from = (page - 1) * PAGE_SIZE;
+
+      if (parsed.text) {
+        const { data: matches, error } = await supabase.rpc("search_incidents", {
+          _query: parsed.text,
+          _status: status ?? undefined,
+          _priority: priority ?? undefined,
+          _category: category ?? undefined,
+          _location: location ?? undefined,
+          _assigned_to: assignedTo ?? undefined,
+          _unassigned: unassigned,
+          _created_from: createdFrom ?? undefined,
+          _created_to: createdTo ?? undefined,
+          _limit: PAGE_SIZE,
+          _offset: from,
+        });
+
+        if (error) throw error;
+        if (!matches?.length) return { incidents: [], total: 0, highlights: {} };
+
+        const { data: incidentsData, error: incidentsError } = await supabase
+          .from("incidents")
+          .select(INCIDENT_LIST_COLUMNS)
+          .in("id", matches.map((m) => m.incident_id));
+
+        if (incidentsError) throw incidentsError;
+
+        // Keep the relevance order returned by the search function
+        const byId = new Map(incidentsData.map((incident) => [incident.id, incident]));
+        const highlights: Record<string, SearchHighlight> = {};
+        for (const match of matches) {
+          highlights[match.incident_id] = { title: match.title_highlight, snippet: match.snippet };
+        }
+
+        return {
+          incidents: matches.map((m) => byId.get(m.incident_id)).filter(Boolean),
+          total: matches[0].total_count,
+          highlights,
+        };
+      }
+
+      let query = supabase.from("incidents").select(INCIDENT_LIST_COLUMNS, { count: "exact" });
+
+      if (status) query = query.eq("status", status);
+      if (priority) query = query.eq("priority", priority);
+      if (category) query = query.in("category", getCategoryFamily(categories, category));
+      if (location) query = query.ilike("location", `%${location}%`);
+      if (unassigned) query = query.is("assigned_to", null);
+      if (assignedTo) query = query.eq("assigned_to", assignedTo);
+      if (createdFrom) query = query.gte("created_at", createdFrom);
+      if (createdTo) query = query.lte("created_at", createdTo);
+
+      const sort = SORT_OPTIONS[filters.sortBy];
+      query = query.order(sort.column, { ascending: sort.ascending });
+      if (sort.column !== "created_at") {
+        query = query.order("created_at", { ascending: false });
+      }
+
+      const { data: incidentsData, count, error } = await query.range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      return { incidents: incidentsData, total: count ?? 0, highlights: {} as Record<string, SearchHighlight> };
     },
+    // Category filters expand to subcategories, so wait for the taxonomy before the first fetch
+    enabled: (filters.assignment !== "mine" || !!user?.id) && !isCategoriesPending,
+    placeholderData: keepPreviousData,
   });
 
-  const filteredIncidents = incidents?.filter((incident) => {
-    const matchesSearch = incident.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         incident.description.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesStatus = statusFilter === "all" || incident.status === statusFilter;
-    const matchesPriority = priorityFilter === "all" || incident.priority === priorityFilter;
-    return matchesSearch && matchesStatus && matchesPriority;
-  });
+  const incidents = data?.incidents;
+  const highlights = data?.highlights ?? {};
+  const total = data?.total ?? 0;
+  const isTextSearch = !!parseSearchQuery(searchParam).text;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
 
   const getPriorityColor = (priority: string) => {
     switch (priority) {
@@ -84,10 +264,6 @@ export const IncidentList = () => {
     }
   };
 
-  if (isLoading) {
-    return <div className="text-center py-12">Loading incidents...</div>;
-  }
-
   return (
     <>
       {/* Filters */}
@@ -95,13 +271,13 @@ export const IncidentList = () => {
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
           <Input
-            placeholder="Search incidents..."
+            placeholder='Search incidents... e.g. location:"Building A" priority:high'
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-9"
           />
         </div>
-        <Select value={statusFilter} onValueChange={setStatusFilter}>
+        <Select value={statusFilter} onValueChange={(value) => updateParams({ status: value })}>
           <SelectTrigger className="w-full sm:w-[180px]">
             <SelectValue placeholder="Status" />
           </SelectTrigger>
@@ -113,7 +289,7 @@ export const IncidentList = () => {
             <SelectItem value="closed">Closed</SelectItem>
           </SelectContent>
         </Select>
-        <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+        <Select value={priorityFilter} onValueChange={(value) => updateParams({ priority: value })}>
           <SelectTrigger className="w-full sm:w-[180px]">
             <SelectValue placeholder="Priority" />
           </SelectTrigger>
@@ -125,20 +301,103 @@ export const IncidentList = () => {
             <SelectItem value="low">Low</SelectItem>
           </SelectContent>
         </Select>
+        <Select value={categoryFilter} onValueChange={(value) => updateParams({ category: value })}>
+          <SelectTrigger className="w-full sm:w-[180px]">
+            <SelectValue placeholder="Category" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Categories</SelectItem>
+            {getTopLevelCategories(categories ?? []).map((c) => (
+              <Fragment key={c.id}>
+                <SelectItem value={c.slug}>{c.name}</SelectItem>
+                {getSubcategories(categories, c.id).map((sub) => (
+                  <SelectItem key={sub.id} value={sub.slug} className="pl-12">
+                    {sub.name}
+                  </SelectItem>
+                ))}
+              </Fragment>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex flex-col sm:flex-row gap-4">
+        <Select value={assignmentFilter} onValueChange={(value) => updateParams({ assignee: value })}>
+          <SelectTrigger className="w-full sm:w-[180px]">
+            <SelectValue placeholder="Assignment" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Incidents</SelectItem>
+            <SelectItem value="mine">Assigned to Me</SelectItem>
+            <SelectItem value="unassigned">Unassigned</SelectItem>
+            {assignees
+              ?.filter((profile) => profile.id !== user?.id)
+              .map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.full_name}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            aria-label="Created from"
+            value={dateFrom}
+            max={dateTo || undefined}
+            onChange={(e) => updateParams({ from: e.target.value })}
+            className="w-full sm:w-[160px]"
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="date"
+            aria-label="Created to"
+            value={dateTo}
+            min={dateFrom || undefined}
+            onChange={(e) => updateParams({ to: e.target.value })}
+            className="w-full sm:w-[160px]"
+          />
+        </div>
+        <Select
+          value={isTextSearch ? "relevance" : sortBy}
+          onValueChange={(value) => updateParams({ sort: value === "newest" ? null : value })}
+          disabled={isTextSearch}
+        >
+          <SelectTrigger className="w-full sm:w-[180px] sm:ml-auto">
+            <SelectValue placeholder="Sort by" />
+          </SelectTrigger>
+          <SelectContent>
+            {isTextSearch && <SelectItem value="relevance">Most relevant</SelectItem>}
+            <SelectItem value="newest">Newest first</SelectItem>
+            <SelectItem value="oldest">Oldest first</SelectItem>
+            <SelectItem value="priority">Highest priority</SelectItem>
+            <SelectItem value="updated">Recently updated</SelectItem>
+          </SelectContent>
+        </Select>
       </div>
 
+      {isLoading && <div className="text-center py-12">Loading incidents...</div>}
+
       {/* Incidents Grid */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {filteredIncidents?.map((incident) => (
+      <div className={cn("grid gap-4 md:grid-cols-2 lg:grid-cols-3", isFetching && "opacity-60")}>
+        {incidents?.map((incident) => (
           <Card 
             key={incident.id} 
-            className="cursor-pointer hover:shadow-lg transition-shadow"
-            onClick={() => setSelectedIncidentId(incident.id)}
+            className={cn(
+              "cursor-pointer hover:shadow-lg transition-shadow",
+              flashingIds.has(incident.id) && "ring-2 ring-priority-critical animate-pulse"
+            )}
+            onClick={() => navigate({ pathname: `/incidents/${incident.id}`, search: searchParams.toString() })}
           >
             <CardHeader>
               <div className="flex items-start justify-between gap-2">
                 <div className="flex-1 min-w-0">
-                  <CardTitle className="text-base truncate">{incident.title}</CardTitle>
+                  <CardTitle className="text-base truncate">
+                    {highlights[incident.id] ? (
+                      <HighlightedText text={highlights[incident.id].title} />
+                    ) : (
+                      incident.title
+                    )}
+                  </CardTitle>
                   <CardDescription className="text-xs mt-1">
                     <span className="flex items-center gap-1">
                       <Clock className="w-3 h-3" />
@@ -153,24 +412,91 @@ export const IncidentList = () => {
             </CardHeader>
             <CardContent className="space-y-3">
               <p className="text-sm text-muted-foreground line-clamp-2">
-                {incident.description}
+                {highlights[incident.id] ? (
+                  <HighlightedText text={highlights[incident.id].snippet} />
+                ) : (
+                  incident.description
+                )}
               </p>
               <div className="flex flex-wrap gap-2">
                 <Badge variant="outline" className={getStatusColor(incident.status)}>
                   {incident.status.replace("_", " ")}
                 </Badge>
-                <Badge variant="secondary">{incident.category}</Badge>
+                <CategoryBadge slug={incident.category} />
+                {incident.escalated_at && (
+                  <Badge variant="destructive" className="gap-1">
+                    <Siren className="w-3 h-3" />
+                    Escalated
+                  </Badge>
+                )}
+                <SlaIndicator incident={incident} />
               </div>
               <div className="text-xs text-muted-foreground">
                 <div>📍 {incident.location}</div>
                 <div>Reporter: {incident.reporter?.full_name}</div>
+                <div>Assigned: {incident.assigned?.full_name ?? "Unassigned"}</div>
               </div>
             </CardContent>
           </Card>
         ))}
       </div>
 
-      {filteredIncidents?.length === 0 && (
+      {total > PAGE_SIZE && (
+        <div className="flex flex-col items-center gap-2">
+          <Pagination>
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  aria-disabled={page === 1}
+                  className={cn(page === 1 && "pointer-events-none opacity-50")}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage(Math.max(1, page - 1));
+                  }}
+                />
+              </PaginationItem>
+              {getPageNumbers(page, totalPages).map((pageNumber, index) => (
+                <PaginationItem key={pageNumber ?? `ellipsis-${index}`}>
+                  {pageNumber === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink
+                      href="#"
+                      isActive={pageNumber === page}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setPage(pageNumber);
+                      }}
+                    >
+                      {pageNumber}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  aria-disabled={page === totalPages}
+                  className={cn(page === totalPages && "pointer-events-none opacity-50")}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage(Math.min(totalPages, page + 1));
+                  }}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        </div>
+      )}
+
+      {total > 0 && (
+        <p className="text-sm text-muted-foreground text-center">
+          Showing {(page - 1) * PAGE_SIZE + 1}–{Math.min(page * PAGE_SIZE, total)} of {total} incidents
+        </p>
+      )}
+
+      {!isLoading && incidents?.length === 0 && (
         <Card className="py-12">
           <CardContent className="flex flex-col items-center justify-center text-center">
             <AlertCircle className="w-12 h-12 text-muted-foreground mb-4" />
@@ -187,7 +513,9 @@ export const IncidentList = () => {
         <IncidentDetails
           incidentId={selectedIncidentId}
           open={!!selectedIncidentId}
-          onOpenChange={(open) => !open && setSelectedIncidentId(null)}
+          onOpenChange={(open) =>
+            !open && navigate({ pathname: "/incidents", search: searchParams.toString() })
+          }
         />
       )}
     </>
@@ -0,0 +1,131 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/use-locations";
+import { indexLocations, suggestLocation } from "@/lib/locations";
+import { LocationPicker } from "./LocationPicker";
+import { Wand2 } from "lucide-react";
+
+/** Links incidents reported with free-text locations to entries in the location registry. */
+export const LocationBackfill = () => {
+  // Choices made in the table, keyed by the free-text location; unset rows use the suggestion
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const { data: locations } = useLocations();
+  const index = useMemo(() => indexLocations(locations), [locations]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: unmapped, isLoading } = useQuery({
+    queryKey: ["unmapped-locations"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("unmapped_incident_locations");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const rows = (unmapped ?? []).map((row) => ({
+    ...row,
+    locationId: choices[row.location] ?? suggestLocation(index, row.location)?.id ?? null,
+  }));
+
+  const mapLocations = useMutation({
+    mutationFn: async (mappings: { location: string; locationId: string }[]) => {
+      let mapped = 0;
+      // One call per spelling keeps each mapping atomic and its alias recorded
+      for (const { location, locationId } of mappings) {
+        const { data, error } = await supabase.rpc("map_incident_location", {
+          _location: location,
+          _location_id: locationId,
+        });
+        if (error) throw error;
+        mapped += data;
+      }
+      return mapped;
+    },
+    onSuccess: (mapped) => {
+      toast({ title: "Locations mapped", description: `${mapped} incident(s) linked to the registry.` });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["unmapped-locations"] });
+      queryClient.invalidateQueries({ queryKey: ["locations"] });
+      queryClient.invalidateQueries({ queryKey: ["incidents"] });
+    },
+  });
+
+  const ready = rows.filter((row) => row.locationId);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Map free-text locations</CardTitle>
+          <CardDescription>
+            Link incidents reported before the registry existed. Each mapped spelling is kept as an alias, and each incident keeps the text it was reported with.
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() =>
+            mapLocations.mutate(ready.map((row) => ({ location: row.location, locationId: row.locationId })))
+          }
+          disabled={ready.length === 0 || mapLocations.isPending}
+        >
+          <Wand2 className="w-4 h-4 mr-2" />
+          Map all ({ready.length})
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Reported as</TableHead>
+              <TableHead className="w-24 text-right">Incidents</TableHead>
+              <TableHead className="w-[40%]">Registry location</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.location}>
+                <TableCell>{row.location}</TableCell>
+                <TableCell className="text-right">{row.incident_count}</TableCell>
+                <TableCell>
+                  <LocationPicker
+                    value={row.locationId}
+                    onChange={(location) => setChoices((current) => ({ ...current, [row.location]: location.id }))}
+                    disabled={mapLocations.isPending}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button
+                    size="sm"
+                    onClick={() => mapLocations.mutate([{ location: row.location, locationId: row.locationId }])}
+                    disabled={!row.locationId || mapLocations.isPending}
+                  >
+                    Map
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {!isLoading && rows.length === 0 && (
+          <p className="text-center text-sm text-muted-foreground py-8">Every incident is linked to the registry</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/use-locations";
+import {
+  LOCATION_LEVELS,
+  LOCATION_LEVEL_LABELS,
+  Location,
+  LocationLevel,
+  getChildLevel,
+  getChildLocations,
+} from "@/lib/locations";
+import { cn } from "@/lib/utils";
+import { LocationBackfill } from "./LocationBackfill";
+import { Pencil, Plus } from "lucide-react";
+
+interface LocationDraft {
+  // Set when editing an existing location
+  id?: string;
+  parentId: string | null;
+  level: LocationLevel;
+  name: string;
+  // Comma-separated in the form, stored as an array
+  aliases: string;
+  latitude: string;
+  longitude: string;
+  isActive: boolean;
+}
+
+const newDraft = (parent: Location | null): LocationDraft => ({
+  parentId: parent?.id ?? null,
+  level: parent ? getChildLevel(parent.level) : "site",
+  name: "",
+  aliases: "",
+  latitude: "",
+  longitude: "",
+  isActive: true,
+});
+
+const toDraft = (location: Location): LocationDraft => ({
+  id: location.id,
+  parentId: location.parent_id,
+  level: location.level,
+  name: location.name,
+  aliases: location.aliases.join(", "),
+  latitude: location.latitude?.toString() ?? "",
+  longitude: location.longitude?.toString() ?? "",
+  isActive: location.is_active,
+});
+
+const parseCoordinate = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export const LocationManager = () => {
+  const [draft, setDraft] = useState<LocationDraft | null>(null);
+  const { data: locations = [], isLoading } = useLocations();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["locations"] });
+    // Renames and moves rewrite the stored path on incidents
+    queryClient.invalidateQueries({ queryKey: ["incidents"] });
+  };
+
+  const saveLocation = useMutation({
+    mutationFn: async (values: LocationDraft) => {
+      const latitude = parseCoordinate(values.latitude);
+      const longitude = parseCoordinate(values.longitude);
+      if (Number.isNaN(latitude) || Number.isNaN(longitude) || (latitude === null) !== (longitude === null)) {
+        throw new Error("Enter both latitude and longitude as numbers, or leave both empty");
+      }
+
+      const row = {
+        name: values.name.trim(),
+        aliases: values.aliases
+          .split(",")
+          .map((alias) => alias.trim())
+          .filter(Boolean),
+        latitude,
+        longitude,
+        is_active: values.isActive,
+      };
+
+      const { error } = values.id
+        ? await supabase.from("locations").update(row).eq("id", values.id)
+        : await supabase.from("locations").insert({ ...row, parent_id: values.parentId, level: values.level });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, values) => {
+      invalidate();
+      setDraft(null);
+      toast({ title: values.id ? "Location updated" : "Location added" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const toggleActive = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const { error } = await supabase.from("locations").update({ is_active: isActive }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const renderTree = (parentId: string | null) =>
+    getChildLocations(locations, parentId).map((location) => {
+      const depth = LOCATION_LEVELS.indexOf(location.level);
+      return (
+        <div key={location.id}>
+          <div
+            className={cn(
+              "flex items-center gap-2 py-1.5 border-b last:border-b-0",
+              !location.is_active && "text-muted-foreground"
+            )}
+            style={{ paddingLeft: `${depth * 1.5}rem` }}
+          >
+            <Badge variant="outline" className="w-20 justify-center">
+              {LOCATION_LEVEL_LABELS[location.level]}
+            </Badge>
+            <span className="text-sm font-medium truncate">{location.name}</span>
+            {location.aliases.length > 0 && (
+              <span className="text-xs text-muted-foreground truncate">also {location.aliases.join(", ")}</span>
+            )}
+            <div className="ml-auto flex items-center gap-1 shrink-0">
+              <Switch
+                checked={location.is_active}
+                onCheckedChange={(checked) => toggleActive.mutate({ id: location.id, isActive: checked })}
+                disabled={toggleActive.isPending}
+                aria-label={`${location.name} active`}
+              />
+              {location.level !== "zone" && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDraft(newDraft(location))}
+                  aria-label={`Add to ${location.name}`}
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => setDraft(toDraft(location))} aria-label="Edit">
+                <Pencil className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+          {renderTree(location.id)}
+        </div>
+      );
+    });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Locations</CardTitle>
+            <CardDescription>Sites, buildings, floors and zones that incidents are reported against</CardDescription>
+          </div>
+          <Button onClick={() => setDraft(newDraft(null))}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add site
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {renderTree(null)}
+          {!isLoading && locations.length === 0 && (
+            <p className="text-center text-sm text-muted-foreground py-8">
+              No locations yet. Until a site is added, incidents use a free-text location.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <LocationBackfill />
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {draft?.id ? "Edit" : "Add"} {draft && LOCATION_LEVEL_LABELS[draft.level].toLowerCase()}
+            </DialogTitle>
+            <DialogDescription>
+              Inactive locations stay on existing incidents but are no longer offered for new reports.
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <form
+              onSubmit={(e) => { e.preventDefault(); saveLocation.mutate(draft); }}
+              className="space-y-4"
+            >
+              <div className="space-y-2">
+                <Label htmlFor="location-name">Name</Label>
+                <Input
+                  id="location-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="location-aliases">Other spellings</Label>
+                <Input
+                  id="location-aliases"
+                  value={draft.aliases}
+                  onChange={(e) => setDraft({ ...draft, aliases: e.target.value })}
+                  placeholder="Bldg A, B-A"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="location-latitude">Latitude</Label>
+                  <Input
+                    id="location-latitude"
+                    inputMode="decimal"
+                    value={draft.latitude}
+                    onChange={(e) => setDraft({ ...draft, latitude: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="location-longitude">Longitude</Label>
+                  <Input
+                    id="location-longitude"
+                    inputMode="decimal"
+                    value={draft.longitude}
+                    onChange={(e) => setDraft({ ...draft, longitude: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="location-active"
+                  checked={draft.isActive}
+                  onCheckedChange={(checked) => setDraft({ ...draft, isActive: checked })}
+                />
+                <Label htmlFor="location-active">Offered for new incidents</Label>
+              </div>
+
+              <div className="flex gap-2 justify-end">
+                <Button type="button" variant="outline" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={!draft.name.trim() || saveLocation.isPending}>
+                  {saveLocation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
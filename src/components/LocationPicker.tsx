@@ -0,0 +1,144 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useLocations } from "@/hooks/use-locations";
+import {
+  LOCATION_LEVEL_LABELS,
+  Location,
+  getChildLevel,
+  getChildLocations,
+  getLocationPath,
+  indexLocations,
+  normalizeLocationText,
+} from "@/lib/locations";
+import { cn } from "@/lib/utils";
+import { Check, ChevronLeft, ChevronRight, ChevronsUpDown } from "lucide-react";
+
+const MAX_SEARCH_RESULTS = 50;
+
+interface LocationPickerProps {
+  id?: string;
+  value: string | null;
+  onChange: (location: Location, path: string) => void;
+  // Shown when no registry location is selected, e.g. the free text of an older incident
+  fallbackLabel?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Picks a registry location either by drilling down site → building → floor → zone or by
+ * searching across every path. Any level can be chosen, not only zones.
+ */
+export const LocationPicker = ({ id, value, onChange, fallbackLabel, disabled }: LocationPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [browseId, setBrowseId] = useState<string | null>(null);
+  const { data: locations } = useLocations();
+  const index = useMemo(() => indexLocations(locations), [locations]);
+
+  const active = useMemo(() => (locations ?? []).filter((location) => location.is_active), [locations]);
+  const term = normalizeLocationText(search);
+  const matches = useMemo(
+    () =>
+      term
+        ? active
+            .map((location) => ({ location, path: getLocationPath(index, location.id) }))
+            .filter(({ path }) => normalizeLocationText(path).includes(term))
+            .sort((a, b) => a.path.localeCompare(b.path))
+            .slice(0, MAX_SEARCH_RESULTS)
+        : [],
+    [active, index, term]
+  );
+
+  const browsing = browseId ? index.get(browseId) : undefined;
+  const childLevel = browsing ? getChildLevel(browsing.level) : "site";
+  const label = (value && getLocationPath(index, value)) || fallbackLabel;
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      // Start next to the current choice so siblings are one click away
+      setBrowseId((value && index.get(value)?.parent_id) ?? null);
+      setSearch("");
+    }
+  };
+
+  const select = (location: Location) => {
+    onChange(location, getLocationPath(index, location.id));
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={disabled}
+          className={cn("w-full justify-between font-normal", !label && "text-muted-foreground")}
+        >
+          <span className="truncate">{label || "Select location"}</span>
+          <ChevronsUpDown className="w-4 h-4 ml-2 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Search sites, buildings, floors, zones..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>No locations found</CommandEmpty>
+            {term ? (
+              <CommandGroup>
+                {matches.map(({ location, path }) => (
+                  <CommandItem key={location.id} value={location.id} onSelect={() => select(location)}>
+                    <Check className={cn("w-4 h-4 mr-2 shrink-0", value === location.id ? "opacity-100" : "opacity-0")} />
+                    <span className="truncate">{path}</span>
+                    <span className="ml-auto pl-2 text-xs text-muted-foreground">
+                      {LOCATION_LEVEL_LABELS[location.level]}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ) : (
+              <>
+                {browsing && (
+                  <CommandGroup heading={getLocationPath(index, browsing.id)}>
+                    <CommandItem value="back" onSelect={() => setBrowseId(browsing.parent_id)}>
+                      <ChevronLeft className="w-4 h-4 mr-2" />
+                      Back
+                    </CommandItem>
+                    <CommandItem value={browsing.id} onSelect={() => select(browsing)}>
+                      <Check className={cn("w-4 h-4 mr-2", value === browsing.id ? "opacity-100" : "opacity-0")} />
+                      Anywhere in {browsing.name}
+                    </CommandItem>
+                  </CommandGroup>
+                )}
+                <CommandGroup heading={`${LOCATION_LEVEL_LABELS[childLevel]}s`}>
+                  {getChildLocations(active, browseId).map((location) => {
+                    const hasChildren = active.some((child) => child.parent_id === location.id);
+                    return (
+                      <CommandItem
+                        key={location.id}
+                        value={location.id}
+                        onSelect={() => (hasChildren ? setBrowseId(location.id) : select(location))}
+                      >
+                        <Check
+                          className={cn("w-4 h-4 mr-2", value === location.id ? "opacity-100" : "opacity-0")}
+                        />
+                        {location.name}
+                        {hasChildren && <ChevronRight className="w-4 h-4 ml-auto opacity-50" />}
+                      </CommandItem>
+                    );
+                  })}
+                </CommandGroup>
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { EVIDENCE_BUCKET, uploadEvidenceFile } from "@/lib/evidence";
+import { RedactionBox, RedactionStyle, normalizeBox, renderRedactedImage } from "@/lib/redaction";
+import { cn } from "@/lib/utils";
+import { Eraser, Undo2 } from "lucide-react";
+
+interface RedactionEditorProps {
+  item: Pick<Tables<"evidence_items">, "id" | "incident_id" | "storage_path" | "original_filename" | "mime_type">;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Point = { x: number; y: number };
+
+// Ignore accidental clicks; boxes must cover at least 1% of each dimension
+const MIN_BOX_SIZE = 0.01;
+
+export const RedactionEditor = ({ item, open, onOpenChange }: RedactionEditorProps) => {
+  const [boxes, setBoxes] = useState<RedactionBox[]>([]);
+  const [style, setStyle] = useState<RedactionStyle>("blur");
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [dragEnd, setDragEnd] = useState<Point | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = usePermissions();
+
+  // The file is loaded as a blob so the canvas is never tainted by a cross-origin image
+  const { data: blob } = useQuery({
+    queryKey: ["evidence-file", item.storage_path],
+    queryFn: async () => {
+      const { data, error } = await supabase.storage.from(EVIDENCE_BUCKET).download(item.storage_path);
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [blob]);
+
+  const toPoint = (e: React.PointerEvent<HTMLDivElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(toPoint(e));
+    setDragEnd(toPoint(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStart) setDragEnd(toPoint(e));
+  };
+
+  const handlePointerUp = () => {
+    if (dragStart && dragEnd) {
+      const box = normalizeBox(dragStart, dragEnd, style);
+      if (box.width >= MIN_BOX_SIZE && box.height >= MIN_BOX_SIZE) {
+        setBoxes((current) => [...current, box]);
+      }
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const saveRedaction = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Not authenticated");
+      if (!imageRef.current) throw new Error("The image has not loaded yet");
+
+      const file = await renderRedactedImage(imageRef.current, boxes, item.original_filename, item.mime_type);
+      await uploadEvidenceFile(item.incident_id, file, user.id, {
+        derivedFromId: item.id,
+        redactions: boxes,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["evidence-items", item.incident_id] });
+      queryClient.invalidateQueries({ queryKey: ["incident-updates", item.incident_id] });
+      toast({
+        title: "Redacted copy saved",
+        description: "Downloads and share links will use the redacted copy by default.",
+      });
+      setBoxes([]);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const draft = dragStart && dragEnd ? normalizeBox(dragStart, dragEnd, style) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Redact {item.original_filename}</DialogTitle>
+          <DialogDescription>
+            Drag over faces, plates or other details to hide them. The original is kept unchanged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <ToggleGroup
+            type="single"
+            value={style}
+            onValueChange={(value: RedactionStyle) => value && setStyle(value)}
+            variant="outline"
+            size="sm"
+          >
+            <ToggleGroupItem value="blur">Blur</ToggleGroupItem>
+            <ToggleGroupItem value="black">Black box</ToggleGroupItem>
+          </ToggleGroup>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setBoxes((current) => current.slice(0, -1))}
+              disabled={boxes.length === 0}
+            >
+              <Undo2 className="w-4 h-4 mr-2" />
+              Undo
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setBoxes([])} disabled={boxes.length === 0}>
+              <Eraser className="w-4 h-4 mr-2" />
+              Clear
+            </Button>
+          </div>
+        </div>
+
+        {imageUrl ? (
+          <div className="relative select-none">
+            <img ref={imageRef} src={imageUrl} alt={item.original_filename} className="w-full rounded-lg border" />
+            <div
+              className="absolute inset-0 cursor-crosshair touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              {[...boxes, ...(draft ? [draft] : [])].map((box, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    "absolute border-2 border-destructive",
+                    box.style === "black" ? "bg-black/80" : "bg-background/60 backdrop-blur-md"
+                  )}
+                  style={{
+                    left: `${box.x * 100}%`,
+                    top: `${box.y * 100}%`,
+                    width: `${box.width * 100}%`,
+                    height: `${box.height * 100}%`,
+                  }}
+                />
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="rounded-lg border w-full h-96 bg-muted animate-pulse" />
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveRedaction.mutate()}
+            disabled={boxes.length === 0 || !imageUrl || saveRedaction.isPending}
+          >
+            {saveRedaction.isPending ? "Saving..." : `Save redacted copy (${boxes.length})`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
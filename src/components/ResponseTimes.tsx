@@ -0,0 +1,229 @@
+import { Fragment, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCategories } from "@/hooks/use-categories";
+import {
+  AnalyticsRangeArgs,
+  RESPONSE_TIME_GROUP_COLUMNS,
+  RESPONSE_TIME_GROUP_LABELS,
+  ResponseTimeGroup,
+  UNMAPPED_LOCATION,
+  formatDuration,
+} from "@/lib/analytics";
+import { getCategoryLabel } from "@/lib/incident-categories";
+import { LocationLevel } from "@/lib/locations";
+import { cn } from "@/lib/utils";
+import { IncidentDetails } from "./IncidentDetails";
+import { format } from "date-fns";
+import { ChevronDown, ChevronRight, Gauge } from "lucide-react";
+
+// Slowest incidents shown when drilling into a group
+const DRILL_DOWN_LIMIT = 25;
+
+const PRIORITY_ORDER = Constants.public.Enums.incident_priority;
+
+interface ResponseTimesProps {
+  args: AnalyticsRangeArgs;
+  // Level that registry locations roll up to; unset when locations are free text
+  level?: LocationLevel;
+}
+
+/**
+ * Mean, median and 90th percentile times to acknowledge and resolve, per priority, category,
+ * location or assignee. Each group expands into the slowest incidents that make it up.
+ */
+export const ResponseTimes = ({ args, level }: ResponseTimesProps) => {
+  const [groupBy, setGroupBy] = useState<ResponseTimeGroup>("priority");
+  // Wrapped so the group of incidents without a key (unassigned, unmapped) can be selected too
+  const [expanded, setExpanded] = useState<{ key: string | null } | null>(null);
+  const [selectedIncidentId, setSelectedIncidentId] = useState<string | null>(null);
+  const { data: categories } = useCategories();
+
+  const { data: groups = [], isLoading } = useQuery({
+    queryKey: ["analytics", "response-times", { ...args, groupBy, level }],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("incident_response_times", {
+        ...args,
+        _group_by: groupBy,
+        _level: level,
+      });
+      if (error) throw error;
+      // Priorities read best from most to least urgent; other groups come busiest first
+      return groupBy === "priority"
+        ? data.sort(
+            (a, b) =>
+              PRIORITY_ORDER.indexOf(b.group_key as (typeof PRIORITY_ORDER)[number]) -
+              PRIORITY_ORDER.indexOf(a.group_key as (typeof PRIORITY_ORDER)[number])
+          )
+        : data;
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: incidents, isLoading: isLoadingIncidents } = useQuery({
+    queryKey: ["analytics", "response-time-incidents", { ...args, groupBy, level, key: expanded?.key }],
+    queryFn: async () => {
+      const column = RESPONSE_TIME_GROUP_COLUMNS[groupBy];
+      let query = supabase.rpc("incident_response_samples", { ...args, _level: level });
+      query = expanded.key === null ? query.is(column, null) : query.eq(column, expanded.key);
+
+      // Unresolved incidents are still adding up time to resolve, so they lead, oldest first
+      const { data, error } = await query
+        .order("time_to_resolve_seconds", { ascending: false, nullsFirst: true })
+        .order("created_at", { ascending: true })
+        .limit(DRILL_DOWN_LIMIT);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!expanded,
+  });
+
+  const getGroupLabel = (key: string | null, label: string | null) => {
+    switch (groupBy) {
+      case "priority":
+        return key.charAt(0).toUpperCase() + key.slice(1);
+      case "category":
+        return getCategoryLabel(categories, key);
+      case "location":
+        return label ?? UNMAPPED_LOCATION;
+      case "assignee":
+        return label ?? "Unassigned";
+    }
+  };
+
+  const handleGroupByChange = (value: ResponseTimeGroup) => {
+    setGroupBy(value);
+    setExpanded(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-2">
+        <div className="space-y-1.5">
+          <CardTitle>
+            <Gauge className="w-4 h-4 inline mr-2" />
+            Response Times
+          </CardTitle>
+          <CardDescription>
+            Acknowledged at the first status change or assignment. Select a row to see its slowest incidents.
+          </CardDescription>
+        </div>
+        <Select value={groupBy} onValueChange={handleGroupByChange}>
+          <SelectTrigger className="w-[140px]" aria-label="Group response times by">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(RESPONSE_TIME_GROUP_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                By {label.toLowerCase()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead rowSpan={2}>{RESPONSE_TIME_GROUP_LABELS[groupBy]}</TableHead>
+              <TableHead rowSpan={2} className="text-right">Incidents</TableHead>
+              <TableHead colSpan={3} className="text-center border-l">Time to acknowledge</TableHead>
+              <TableHead colSpan={3} className="text-center border-l">Time to resolve</TableHead>
+            </TableRow>
+            <TableRow>
+              <TableHead className="text-right border-l">Mean</TableHead>
+              <TableHead className="text-right">p50</TableHead>
+              <TableHead className="text-right">p90</TableHead>
+              <TableHead className="text-right border-l">Mean</TableHead>
+              <TableHead className="text-right">p50</TableHead>
+              <TableHead className="text-right">p90</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {groups.map((group) => {
+              const isExpanded = expanded?.key === group.group_key;
+              const Chevron = isExpanded ? ChevronDown : ChevronRight;
+              return (
+                <Fragment key={group.group_key ?? "none"}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() => setExpanded(isExpanded ? null : { key: group.group_key })}
+                  >
+                    <TableCell className="font-medium">
+                      <Chevron className="w-4 h-4 inline mr-2 text-muted-foreground" />
+                      {getGroupLabel(group.group_key, group.group_label)}
+                    </TableCell>
+                    <TableCell className="text-right">{group.incident_count}</TableCell>
+                    <TableCell className="text-right border-l">{formatDuration(group.mtta_seconds)}</TableCell>
+                    <TableCell className="text-right">{formatDuration(group.mtta_p50_seconds)}</TableCell>
+                    <TableCell className="text-right">{formatDuration(group.mtta_p90_seconds)}</TableCell>
+                    <TableCell className="text-right border-l">{formatDuration(group.mttr_seconds)}</TableCell>
+                    <TableCell className="text-right">{formatDuration(group.mttr_p50_seconds)}</TableCell>
+                    <TableCell className="text-right">{formatDuration(group.mttr_p90_seconds)}</TableCell>
+                  </TableRow>
+
+                  {isExpanded && (
+                    <TableRow className="hover:bg-transparent">
+                      <TableCell colSpan={8} className="bg-muted/40">
+                        {isLoadingIncidents ? (
+                          <p className="text-sm text-muted-foreground py-2">Loading incidents...</p>
+                        ) : (
+                          <div className="space-y-1">
+                            <p className="text-xs text-muted-foreground">
+                              {group.acknowledged_count} of {group.incident_count} acknowledged,{" "}
+                              {group.resolved_count} resolved. Slowest to resolve first.
+                            </p>
+                            {incidents?.map((incident) => (
+                              <div key={incident.incident_id} className="flex items-center gap-4 text-sm">
+                                <Button
+                                  variant="link"
+                                  size="sm"
+                                  className="h-auto p-0 flex-1 justify-start truncate"
+                                  onClick={() => setSelectedIncidentId(incident.incident_id)}
+                                >
+                                  {incident.title}
+                                </Button>
+                                <span className="text-muted-foreground w-32 shrink-0">
+                                  {format(new Date(incident.created_at), "PP")}
+                                </span>
+                                <span className={cn("w-28 shrink-0 text-right", !incident.acknowledged_at && "text-muted-foreground")}>
+                                  {incident.acknowledged_at
+                                    ? formatDuration(incident.time_to_acknowledge_seconds)
+                                    : "Not acknowledged"}
+                                </span>
+                                <span className={cn("w-28 shrink-0 text-right", !incident.resolved_at && "text-muted-foreground")}>
+                                  {incident.resolved_at ? formatDuration(incident.time_to_resolve_seconds) : "Unresolved"}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {!isLoading && groups.length === 0 && (
+          <p className="text-center text-sm text-muted-foreground py-8">No incidents reported in this period</p>
+        )}
+      </CardContent>
+
+      {selectedIncidentId && (
+        <IncidentDetails
+          incidentId={selectedIncidentId}
+          open={!!selectedIncidentId}
+          onOpenChange={(open) => !open && setSelectedIncidentId(null)}
+        />
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,84 @@
+import { Badge } from "@/components/ui/badge";
+import { useNow } from "@/hooks/use-now";
+import { SlaFields, SlaTarget, formatSlaRemaining, getIncidentSla } from "@/lib/sla";
+import { format } from "date-fns";
+import { AlarmClock, CheckCircle, Timer } from "lucide-react";
+
+interface SlaIndicatorProps {
+  incident: SlaFields;
+  detailed?: boolean;
+}
+
+const SlaBadge = ({ label, target }: { label: string; target: SlaTarget }) => {
+  switch (target.state) {
+    case "breached":
+      return (
+        <Badge variant="destructive" className="gap-1">
+          <AlarmClock className="w-3 h-3" />
+          {label} SLA breached
+          {target.remainingMs !== null && ` (${formatSlaRemaining(target.remainingMs)})`}
+        </Badge>
+      );
+    case "pending":
+      return (
+        <Badge variant="outline" className="gap-1">
+          <Timer className="w-3 h-3" />
+          {label}: {formatSlaRemaining(target.remainingMs)}
+        </Badge>
+      );
+    case "met":
+      return (
+        <Badge variant="outline" className="gap-1 text-status-resolved border-status-resolved">
+          <CheckCircle className="w-3 h-3" />
+          {label} SLA met
+        </Badge>
+      );
+    default:
+      return null;
+  }
+};
+
+export const SlaIndicator = ({ incident, detailed = false }: SlaIndicatorProps) => {
+  const now = useNow();
+  const { response, resolution } = getIncidentSla(incident, now);
+
+  if (detailed) {
+    return (
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        {[
+          { label: "Response", target: response },
+          { label: "Resolution", target: resolution },
+        ].map(({ label, target }) => (
+          <div key={label} className="space-y-1">
+            <SlaBadge label={label} target={target} />
+            {target.dueAt && (
+              <div className="text-xs text-muted-foreground">
+                Due {format(target.dueAt, "PPp")}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  // On cards, show breaches first, then whichever deadline is currently running
+  const breached = [
+    { label: "Response", target: response },
+    { label: "Resolution", target: resolution },
+  ].filter(({ target }) => target.state === "breached");
+
+  if (breached.length > 0) {
+    return (
+      <>
+        {breached.map(({ label, target }) => (
+          <SlaBadge key={label} label={label} target={target} />
+        ))}
+      </>
+    );
+  }
+
+  if (response.state === "pending") return <SlaBadge label="Respond" target={response} />;
+  if (resolution.state === "pending") return <SlaBadge label="Resolve" target={resolution} />;
+  return null;
+};
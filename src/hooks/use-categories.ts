@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+// Categories are edited rarely and only by admins, who invalidate this query when they do
+const CATEGORY_STALE_TIME = 5 * 60 * 1000;
+
+/** Every category including inactive ones, so historical incidents keep their names. */
+export function useCategories() {
+  return useQuery({
+    queryKey: ["categories"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("*")
+        .order("sort_order")
+        .order("name");
+
+      if (error) throw error;
+      return data;
+    },
+    staleTime: CATEGORY_STALE_TIME,
+  });
+}
@@ -0,0 +1,30 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { EVIDENCE_BUCKET } from "@/lib/evidence";
+
+// Signed URLs are short-lived; refresh them well before they expire
+const SIGNED_URL_TTL_SECONDS = 5 * 60;
+const SIGNED_URL_REFRESH_MS = 4 * 60 * 1000;
+
+/** Resolves private evidence object paths to short-lived signed URLs, keyed by path. */
+export function useEvidenceUrls(paths: string[] | null | undefined) {
+  return useQuery({
+    queryKey: ["evidence-urls", paths],
+    queryFn: async () => {
+      const { data, error } = await supabase.storage
+        .from(EVIDENCE_BUCKET)
+        .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+      if (error) throw error;
+
+      const urls: Record<string, string> = {};
+      for (const item of data) {
+        if (item.signedUrl) urls[item.path] = item.signedUrl;
+      }
+      return urls;
+    },
+    enabled: !!paths?.length,
+    staleTime: SIGNED_URL_REFRESH_MS,
+    refetchInterval: SIGNED_URL_REFRESH_MS,
+  });
+}
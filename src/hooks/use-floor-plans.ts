@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { FLOOR_PLAN_BUCKET } from "@/lib/floor-plans";
+
+const FLOOR_PLAN_STALE_TIME = 5 * 60 * 1000;
+
+// Signed URLs are short-lived; refresh them well before they expire
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+const SIGNED_URL_REFRESH_MS = 50 * 60 * 1000;
+
+export function useFloorPlans() {
+  return useQuery({
+    queryKey: ["floor-plans"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("floor_plans").select("*");
+
+      if (error) throw error;
+      return data;
+    },
+    staleTime: FLOOR_PLAN_STALE_TIME,
+  });
+}
+
+export function useFloorPlanUrl(path: string | null | undefined) {
+  return useQuery({
+    queryKey: ["floor-plan-url", path],
+    queryFn: async () => {
+      const { data, error } = await supabase.storage
+        .from(FLOOR_PLAN_BUCKET)
+        .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+      if (error) throw error;
+      return data.signedUrl;
+    },
+    enabled: !!path,
+    staleTime: SIGNED_URL_REFRESH_MS,
+    refetchInterval: SIGNED_URL_REFRESH_MS,
+  });
+}
@@ -0,0 +1,130 @@
+import { useEffect, useRef } from "react";
+import { QueryClient, useQueryClient } from "@tanstack/react-query";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+type IncidentRow = Tables<"incidents">;
+type IncidentUpdateRow = Tables<"incident_updates">;
+
+// Embedded profiles can't be patched from a bare row, so these changes trigger a refetch
+const EMBEDDED_PROFILE_COLUMNS = ["reporter_id", "assigned_to", "escalated_to"] as const;
+
+const mergeRow = <T extends { id: string }>(item: T, row: IncidentRow): T =>
+  item.id === row.id ? { ...item, ...row } : item;
+
+// Patches every cached incident collection in place, whatever its shape
+const patchIncidentCaches = (queryClient: QueryClient, row: IncidentRow) => {
+  queryClient.setQueriesData({ queryKey: ["incidents"] }, (old: unknown) => {
+    if (Array.isArray(old)) return old.map((item) => mergeRow(item, row));
+    if (old && typeof old === "object" && "incidents" in old && Array.isArray(old.incidents)) {
+      return { ...old, incidents: old.incidents.map((item) => mergeRow(item, row)) };
+    }
+    return old;
+  });
+  queryClient.setQueryData(["incident", row.id], (old: IncidentRow | null | undefined) =>
+    old ? { ...old, ...row } : old
+  );
+};
+
+const handleIncidentChange = (
+  queryClient: QueryClient,
+  payload: RealtimePostgresChangesPayload<IncidentRow>
+) => {
+  // Aggregates can't be patched from a single row
+  queryClient.invalidateQueries({ queryKey: ["analytics"] });
+
+  if (payload.eventType === "UPDATE") {
+    patchIncidentCaches(queryClient, payload.new);
+    const old = payload.old as Partial<IncidentRow>;
+    if (EMBEDDED_PROFILE_COLUMNS.some((column) => old[column] !== payload.new[column])) {
+      queryClient.invalidateQueries({ queryKey: ["incidents"] });
+      queryClient.invalidateQueries({ queryKey: ["incident", payload.new.id] });
+    }
+    return;
+  }
+
+  // Inserts and deletes change counts and page boundaries, so lists are refetched
+  queryClient.invalidateQueries({ queryKey: ["incidents"] });
+  if (payload.eventType === "DELETE" && payload.old.id) {
+    queryClient.invalidateQueries({ queryKey: ["incident", payload.old.id] });
+  }
+};
+
+interface IncidentsRealtimeOptions {
+  onInsert?: (incident: IncidentRow) => void;
+}
+
+/** Keeps cached incident lists in sync with Postgres changes. */
+export function useIncidentsRealtime(scope: string, { onInsert }: IncidentsRealtimeOptions = {}) {
+  const queryClient = useQueryClient();
+  const onInsertRef = useRef(onInsert);
+  onInsertRef.current = onInsert;
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`incidents-${scope}`)
+      .on<IncidentRow>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "incidents" },
+        (payload) => {
+          handleIncidentChange(queryClient, payload);
+          if (payload.eventType === "INSERT") onInsertRef.current?.(payload.new);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient, scope]);
+}
+
+interface IncidentRealtimeOptions {
+  currentUserId?: string;
+  onExternalChange?: (change: { kind: "incident" | "update"; row: IncidentRow | IncidentUpdateRow }) => void;
+}
+
+/** Keeps a single incident and its timeline in sync, reporting changes made by other users. */
+export function useIncidentRealtime(
+  incidentId: string,
+  { currentUserId, onExternalChange }: IncidentRealtimeOptions = {}
+) {
+  const queryClient = useQueryClient();
+  const optionsRef = useRef({ currentUserId, onExternalChange });
+  optionsRef.current = { currentUserId, onExternalChange };
+
+  useEffect(() => {
+    if (!incidentId) return;
+
+    const channel = supabase
+      .channel(`incident-${incidentId}`)
+      .on<IncidentRow>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "incidents", filter: `id=eq.${incidentId}` },
+        (payload) => {
+          handleIncidentChange(queryClient, payload);
+          const { currentUserId, onExternalChange } = optionsRef.current;
+          if (payload.eventType === "UPDATE" && payload.new.updated_by !== currentUserId) {
+            onExternalChange?.({ kind: "incident", row: payload.new });
+          }
+        }
+      )
+      .on<IncidentUpdateRow>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "incident_updates", filter: `incident_id=eq.${incidentId}` },
+        (payload) => {
+          queryClient.invalidateQueries({ queryKey: ["incident-updates", incidentId] });
+          const { currentUserId, onExternalChange } = optionsRef.current;
+          if (payload.eventType === "INSERT" && payload.new.user_id !== currentUserId) {
+            onExternalChange?.({ kind: "update", row: payload.new });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient, incidentId]);
+}
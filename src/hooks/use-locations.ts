@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+// The registry changes rarely and only through the admin screen, which invalidates this query
+const LOCATION_STALE_TIME = 5 * 60 * 1000;
+
+/** The whole location registry including inactive entries, so older incidents keep their paths. */
+export function useLocations() {
+  return useQuery({
+    queryKey: ["locations"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("locations").select("*").order("name");
+
+      if (error) throw error;
+      return data;
+    },
+    staleTime: LOCATION_STALE_TIME,
+  });
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// Re-renders the caller every `intervalMs` so relative times and countdowns stay fresh
+export function useNow(intervalMs = 30_000) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(new Date()), intervalMs);
+    return () => window.clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
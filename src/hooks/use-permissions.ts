@@ -0,0 +1,91 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useProfile } from "@/hooks/use-profiles";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+export type Permission =
+  | "create_incident"
+  | "set_priority"
+  | "edit_incident"
+  | "update_status"
+  | "assign_incident"
+  | "comment"
+  | "view_analytics"
+  | "remove_any_evidence"
+  | "redact_evidence"
+  | "share_evidence"
+  | "verify_evidence"
+  | "view_audit_log"
+  | "manage_categories"
+  | "manage_locations"
+  | "manage_floor_plans"
+  | "delete_incident";
+
+// Mirrors the RLS policies in supabase/migrations; the database remains the source of truth.
+const ROLE_PERMISSIONS: Record<AppRole, Permission[]> = {
+  reporter: ["create_incident", "comment"],
+  security_officer: [
+    "create_incident",
+    "set_priority",
+    "edit_incident",
+    "update_status",
+    "assign_incident",
+    "comment",
+    "view_analytics",
+    "redact_evidence",
+    "share_evidence",
+    "verify_evidence",
+  ],
+  supervisor: [
+    "create_incident",
+    "set_priority",
+    "edit_incident",
+    "update_status",
+    "assign_incident",
+    "comment",
+    "view_analytics",
+    "remove_any_evidence",
+    "redact_evidence",
+    "share_evidence",
+    "verify_evidence",
+  ],
+  admin: [
+    "create_incident",
+    "set_priority",
+    "edit_incident",
+    "update_status",
+    "assign_incident",
+    "comment",
+    "view_analytics",
+    "remove_any_evidence",
+    "redact_evidence",
+    "share_evidence",
+    "verify_evidence",
+    "view_audit_log",
+    "manage_categories",
+    "manage_locations",
+    "manage_floor_plans",
+    "delete_incident",
+  ],
+};
+
+export function usePermissions() {
+  const { data: user, isPending: isUserPending } = useQuery({
+    queryKey: ["user"],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      return user;
+    },
+  });
+
+  const { data: profile, isPending: isProfilePending } = useProfile(user?.id);
+  const isLoading = isUserPending || (!!user && isProfilePending);
+
+  const role = profile?.role;
+
+  const can = (permission: Permission) => !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+  return { user, profile, role, can, isLoading };
+}
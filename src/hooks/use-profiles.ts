@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+// Profiles change rarely, so cached entries are reused across components for a while
+const PROFILE_STALE_TIME = 5 * 60 * 1000;
+
+export const PROFILE_SUMMARY_COLUMNS = "id, full_name, email, role";
+
+// Roles that incidents can be assigned to
+export const ASSIGNABLE_ROLES: Database["public"]["Enums"]["app_role"][] = [
+  "security_officer",
+  "supervisor",
+  "admin",
+];
+
+export function useProfile(id: string | null | undefined) {
+  return useQuery({
+    queryKey: ["profile", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+    staleTime: PROFILE_STALE_TIME,
+  });
+}
+
+export function useAssignableProfiles(enabled = true) {
+  return useQuery({
+    queryKey: ["profiles", "assignable"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select(PROFILE_SUMMARY_COLUMNS)
+        .in("role", ASSIGNABLE_ROLES)
+        .order("full_name");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled,
+    staleTime: PROFILE_STALE_TIME,
+  });
+}
+
+export function useAllProfiles(enabled = true) {
+  return useQuery({
+    queryKey: ["profiles", "all"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select(PROFILE_SUMMARY_COLUMNS)
+        .order("full_name");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled,
+    staleTime: PROFILE_STALE_TIME,
+  });
+}
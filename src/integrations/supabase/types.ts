@@ -14,30 +14,437 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          id: number
+          incident_id: string | null
+          new_values: Json | null
+          occurred_at: string
+          old_values: Json | null
+          row_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          id?: never
+          incident_id?: string | null
+          new_values?: Json | null
+          occurred_at?: string
+          old_values?: Json | null
+          row_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          id?: never
+          incident_id?: string | null
+          new_values?: Json | null
+          occurred_at?: string
+          old_values?: Json | null
+          row_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          created_at: string
+          default_priority: Database["public"]["Enums"]["incident_priority"]
+          icon: string | null
+          id: string
+          is_active: boolean
+          name: string
+          parent_id: string | null
+          slug: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          default_priority?: Database["public"]["Enums"]["incident_priority"]
+          icon?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          parent_id?: string | null
+          slug: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          default_priority?: Database["public"]["Enums"]["incident_priority"]
+          icon?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          parent_id?: string | null
+          slug?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      custody_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          details: Json | null
+          event_type: string
+          evidence_item_id: string
+          id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          details?: Json | null
+          event_type: string
+          evidence_item_id: string
+          id?: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          details?: Json | null
+          event_type?: string
+          evidence_item_id?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custody_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "custody_events_evidence_item_id_fkey"
+            columns: ["evidence_item_id"]
+            isOneToOne: false
+            referencedRelation: "evidence_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      escalation_rules: {
+        Row: {
+          active: boolean
+          condition: string
+          created_at: string
+          escalate_to_role: Database["public"]["Enums"]["app_role"]
+          id: string
+          idle_minutes: number | null
+          name: string
+          priority: Database["public"]["Enums"]["incident_priority"] | null
+          status: Database["public"]["Enums"]["incident_status"] | null
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          condition: string
+          created_at?: string
+          escalate_to_role?: Database["public"]["Enums"]["app_role"]
+          id?: string
+          idle_minutes?: number | null
+          name: string
+          priority?: Database["public"]["Enums"]["incident_priority"] | null
+          status?: Database["public"]["Enums"]["incident_status"] | null
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          condition?: string
+          created_at?: string
+          escalate_to_role?: Database["public"]["Enums"]["app_role"]
+          id?: string
+          idle_minutes?: number | null
+          name?: string
+          priority?: Database["public"]["Enums"]["incident_priority"] | null
+          status?: Database["public"]["Enums"]["incident_status"] | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      evidence_items: {
+        Row: {
+          camera_make: string | null
+          camera_model: string | null
+          captured_at: string | null
+          created_at: string
+          derived_from: string | null
+          exif_stripped: boolean
+          gps_latitude: number | null
+          gps_longitude: number | null
+          id: string
+          incident_id: string
+          incident_update_id: string | null
+          mime_type: string | null
+          original_filename: string
+          redactions: Json | null
+          removal_reason: string | null
+          removed_at: string | null
+          removed_by: string | null
+          sha256: string | null
+          size_bytes: number | null
+          storage_path: string
+          stored_sha256: string | null
+          uploaded_by: string | null
+        }
+        Insert: {
+          camera_make?: string | null
+          camera_model?: string | null
+          captured_at?: string | null
+          created_at?: string
+          derived_from?: string | null
+          exif_stripped?: boolean
+          gps_latitude?: number | null
+          gps_longitude?: number | null
+          id?: string
+          incident_id: string
+          incident_update_id?: string | null
+          mime_type?: string | null
+          original_filename: string
+          redactions?: Json | null
+          removal_reason?: string | null
+          removed_at?: string | null
+          removed_by?: string | null
+          sha256?: string | null
+          size_bytes?: number | null
+          storage_path: string
+          stored_sha256?: string | null
+          uploaded_by?: string | null
+        }
+        Update: {
+          camera_make?: string | null
+          camera_model?: string | null
+          captured_at?: string | null
+          created_at?: string
+          derived_from?: string | null
+          exif_stripped?: boolean
+          gps_latitude?: number | null
+          gps_longitude?: number | null
+          id?: string
+          incident_id?: string
+          incident_update_id?: string | null
+          mime_type?: string | null
+          original_filename?: string
+          redactions?: Json | null
+          removal_reason?: string | null
+          removed_at?: string | null
+          removed_by?: string | null
+          sha256?: string | null
+          size_bytes?: number | null
+          storage_path?: string
+          stored_sha256?: string | null
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evidence_items_derived_from_fkey"
+            columns: ["derived_from"]
+            isOneToOne: false
+            referencedRelation: "evidence_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evidence_items_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evidence_items_incident_update_id_fkey"
+            columns: ["incident_update_id"]
+            isOneToOne: false
+            referencedRelation: "incident_updates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evidence_items_removed_by_fkey"
+            columns: ["removed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evidence_items_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      floor_plans: {
+        Row: {
+          created_at: string
+          height: number
+          id: string
+          location_id: string
+          storage_path: string
+          updated_at: string
+          uploaded_by: string | null
+          width: number
+        }
+        Insert: {
+          created_at?: string
+          height: number
+          id?: string
+          location_id: string
+          storage_path: string
+          updated_at?: string
+          uploaded_by?: string | null
+          width: number
+        }
+        Update: {
+          created_at?: string
+          height?: number
+          id?: string
+          location_id?: string
+          storage_path?: string
+          updated_at?: string
+          uploaded_by?: string | null
+          width?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "floor_plans_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: true
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "floor_plans_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_escalations: {
+        Row: {
+          created_at: string
+          escalated_to: string | null
+          id: string
+          incident_id: string
+          rule_id: string
+        }
+        Insert: {
+          created_at?: string
+          escalated_to?: string | null
+          id?: string
+          incident_id: string
+          rule_id: string
+        }
+        Update: {
+          created_at?: string
+          escalated_to?: string | null
+          id?: string
+          incident_id?: string
+          rule_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_escalations_escalated_to_fkey"
+            columns: ["escalated_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incident_escalations_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incident_escalations_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "escalation_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_search_documents: {
+        Row: {
+          content: string
+          document: unknown
+          incident_id: string
+        }
+        Insert: {
+          content?: string
+          document: unknown
+          incident_id: string
+        }
+        Update: {
+          content?: string
+          document?: unknown
+          incident_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_search_documents_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: true
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       incident_updates: {
         Row: {
           content: string
+          content_hash: string
           created_at: string
+          entry_hash: string
           id: string
           incident_id: string
+          previous_hash: string | null
+          sequence: number
           update_type: string
-          user_id: string
+          user_id: string | null
         }
         Insert: {
           content: string
+          content_hash?: string
           created_at?: string
+          entry_hash?: string
           id?: string
           incident_id: string
+          previous_hash?: string | null
+          sequence?: number
           update_type: string
-          user_id: string
+          user_id: string | null
         }
         Update: {
           content?: string
+          content_hash?: string
           created_at?: string
+          entry_hash?: string
           id?: string
           incident_id?: string
+          previous_hash?: string | null
+          sequence?: number
           update_type?: string
-          user_id?: string
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -47,55 +454,201 @@ export type Database = {
             referencedRelation: "incidents"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "incident_updates_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       incidents: {
         Row: {
+          acknowledged_at: string | null
           assigned_to: string | null
           category: string
           created_at: string
           description: string
-          evidence_urls: string[] | null
+          escalated_at: string | null
+          escalated_to: string | null
+          escalation_level: number
+          floor_plan_id: string | null
           id: string
+          legacy_category: string | null
           location: string
+          location_id: string | null
+          plan_x: number | null
+          plan_y: number | null
           priority: Database["public"]["Enums"]["incident_priority"]
+          reopen_reason: string | null
+          reported_location: string | null
           reporter_id: string
+          resolution_due_at: string | null
+          resolution_notes: string | null
           resolved_at: string | null
+          response_due_at: string | null
           status: Database["public"]["Enums"]["incident_status"]
           title: string
           updated_at: string
+          updated_by: string | null
         }
         Insert: {
+          acknowledged_at?: string | null
           assigned_to?: string | null
           category: string
           created_at?: string
           description: string
-          evidence_urls?: string[] | null
+          escalated_at?: string | null
+          escalated_to?: string | null
+          escalation_level?: number
+          floor_plan_id?: string | null
           id?: string
+          legacy_category?: string | null
           location: string
+          location_id?: string | null
+          plan_x?: number | null
+          plan_y?: number | null
           priority?: Database["public"]["Enums"]["incident_priority"]
+          reopen_reason?: string | null
+          reported_location?: string | null
           reporter_id: string
+          resolution_due_at?: string | null
+          resolution_notes?: string | null
           resolved_at?: string | null
+          response_due_at?: string | null
           status?: Database["public"]["Enums"]["incident_status"]
           title: string
           updated_at?: string
+          updated_by?: string | null
         }
         Update: {
+          acknowledged_at?: string | null
           assigned_to?: string | null
           category?: string
           created_at?: string
           description?: string
-          evidence_urls?: string[] | null
+          escalated_at?: string | null
+          escalated_to?: string | null
+          escalation_level?: number
+          floor_plan_id?: string | null
           id?: string
+          legacy_category?: string | null
           location?: string
+          location_id?: string | null
+          plan_x?: number | null
+          plan_y?: number | null
           priority?: Database["public"]["Enums"]["incident_priority"]
+          reopen_reason?: string | null
+          reported_location?: string | null
           reporter_id?: string
+          resolution_due_at?: string | null
+          resolution_notes?: string | null
           resolved_at?: string | null
+          response_due_at?: string | null
           status?: Database["public"]["Enums"]["incident_status"]
           title?: string
           updated_at?: string
+          updated_by?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "incidents_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+          {
+            foreignKeyName: "incidents_escalated_to_fkey"
+            columns: ["escalated_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_floor_plan_id_fkey"
+            columns: ["floor_plan_id"]
+            isOneToOne: false
+            referencedRelation: "floor_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locations: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          id: string
+          is_active: boolean
+          latitude: number | null
+          level: Database["public"]["Enums"]["location_level"]
+          longitude: number | null
+          name: string
+          parent_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          latitude?: number | null
+          level: Database["public"]["Enums"]["location_level"]
+          longitude?: number | null
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          latitude?: number | null
+          level?: Database["public"]["Enums"]["location_level"]
+          longitude?: number | null
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locations_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -104,7 +657,7 @@ export type Database = {
           email: string
           full_name: string
           id: string
-          role: string
+          role: Database["public"]["Enums"]["app_role"]
           updated_at: string
         }
         Insert: {
@@ -113,7 +666,7 @@ export type Database = {
           email: string
           full_name: string
           id: string
-          role?: string
+          role?: Database["public"]["Enums"]["app_role"]
           updated_at?: string
         }
         Update: {
@@ -122,7 +675,37 @@ export type Database = {
           email?: string
           full_name?: string
           id?: string
-          role?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      sla_policies: {
+        Row: {
+          category: string | null
+          created_at: string
+          id: string
+          priority: Database["public"]["Enums"]["incident_priority"]
+          resolution_minutes: number
+          response_minutes: number
+          updated_at: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          id?: string
+          priority: Database["public"]["Enums"]["incident_priority"]
+          resolution_minutes: number
+          response_minutes: number
+          updated_at?: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          id?: string
+          priority?: Database["public"]["Enums"]["incident_priority"]
+          resolution_minutes?: number
+          response_minutes?: number
           updated_at?: string
         }
         Relationships: []
@@ -132,11 +715,222 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      category_family: {
+        Args: { _slug: string }
+        Returns: string[]
+      }
+      find_sla_policy: {
+        Args: {
+          _category: string
+          _priority: Database["public"]["Enums"]["incident_priority"]
+        }
+        Returns: {
+          category: string | null
+          created_at: string
+          id: string
+          priority: Database["public"]["Enums"]["incident_priority"]
+          resolution_minutes: number
+          response_minutes: number
+          updated_at: string
+        }
+      }
+      format_incident_field: {
+        Args: { _field: string; _value: string }
+        Returns: string
+      }
+      get_user_role: {
+        Args: { _user_id: string }
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
+      has_any_role: {
+        Args: {
+          _roles: Database["public"]["Enums"]["app_role"][]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      incident_category_counts: {
+        Args: { _category?: string; _from: string; _to: string }
+        Returns: {
+          category: string
+          incident_count: number
+          priority: Database["public"]["Enums"]["incident_priority"]
+        }[]
+      }
+      incident_location_counts: {
+        Args: {
+          _category?: string
+          _from: string
+          _level?: Database["public"]["Enums"]["location_level"]
+          _limit?: number
+          _to: string
+        }
+        Returns: {
+          incident_count: number
+          location: string
+          location_id: string
+        }[]
+      }
+      incident_response_samples: {
+        Args: {
+          _category?: string
+          _from: string
+          _level?: Database["public"]["Enums"]["location_level"]
+          _to: string
+        }
+        Returns: {
+          acknowledged_at: string
+          assignee_key: string
+          assignee_label: string
+          category_key: string
+          created_at: string
+          incident_id: string
+          location_key: string
+          location_label: string
+          priority: Database["public"]["Enums"]["incident_priority"]
+          resolved_at: string
+          status: Database["public"]["Enums"]["incident_status"]
+          time_to_acknowledge_seconds: number
+          time_to_resolve_seconds: number
+          title: string
+        }[]
+      }
+      incident_response_times: {
+        Args: {
+          _category?: string
+          _from: string
+          _group_by: string
+          _level?: Database["public"]["Enums"]["location_level"]
+          _to: string
+        }
+        Returns: {
+          acknowledged_count: number
+          group_key: string
+          group_label: string
+          incident_count: number
+          mtta_p50_seconds: number
+          mtta_p90_seconds: number
+          mtta_seconds: number
+          mttr_p50_seconds: number
+          mttr_p90_seconds: number
+          mttr_seconds: number
+          resolved_count: number
+        }[]
+      }
+      incident_stats: {
+        Args: { _category?: string; _from: string; _to: string }
+        Returns: {
+          closed: number
+          critical: number
+          high: number
+          in_progress: number
+          low: number
+          mean_time_to_resolve_seconds: number
+          medium: number
+          open: number
+          resolution_sla_breached: number
+          resolution_sla_met: number
+          resolved: number
+          response_sla_breached: number
+          response_sla_met: number
+          total: number
+        }[]
+      }
+      incident_trend: {
+        Args: {
+          _bucket: string
+          _category?: string
+          _from: string
+          _time_zone?: string
+          _to: string
+        }
+        Returns: {
+          period: string
+          reported: number
+          resolved: number
+        }[]
+      }
+      incident_update_entry_hash: {
+        Args: {
+          _content_hash: string
+          _created_at: string
+          _incident_id: string
+          _previous_hash: string
+          _sequence: number
+          _update_type: string
+          _user_id: string
+        }
+        Returns: string
+      }
+      is_valid_status_transition: {
+        Args: {
+          _from: Database["public"]["Enums"]["incident_status"]
+          _to: Database["public"]["Enums"]["incident_status"]
+        }
+        Returns: boolean
+      }
+      location_ancestor: {
+        Args: {
+          _level: Database["public"]["Enums"]["location_level"]
+          _location_id: string
+        }
+        Returns: string
+      }
+      location_path: {
+        Args: { _location_id: string }
+        Returns: string
+      }
+      map_incident_location: {
+        Args: { _location: string; _location_id: string }
+        Returns: number
+      }
+      refresh_incident_search_document: {
+        Args: { _incident_id: string }
+        Returns: undefined
+      }
+      remove_evidence_item: {
+        Args: { _evidence_item_id: string; _reason: string }
+        Returns: string
+      }
+      run_escalations: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      search_incidents: {
+        Args: {
+          _assigned_to?: string
+          _category?: string
+          _created_from?: string
+          _created_to?: string
+          _limit?: number
+          _location?: string
+          _offset?: number
+          _priority?: Database["public"]["Enums"]["incident_priority"]
+          _query: string
+          _status?: Database["public"]["Enums"]["incident_status"]
+          _unassigned?: boolean
+        }
+        Returns: {
+          incident_id: string
+          rank: number
+          snippet: string
+          title_highlight: string
+          total_count: number
+        }[]
+      }
+      unmapped_incident_locations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          incident_count: number
+          location: string
+        }[]
+      }
     }
     Enums: {
+      app_role: "reporter" | "security_officer" | "supervisor" | "admin"
       incident_priority: "low" | "medium" | "high" | "critical"
       incident_status: "open" | "in_progress" | "resolved" | "closed"
+      location_level: "site" | "building" | "floor" | "zone"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -264,8 +1058,10 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      app_role: ["reporter", "security_officer", "supervisor", "admin"],
       incident_priority: ["low", "medium", "high", "critical"],
       incident_status: ["open", "in_progress", "resolved", "closed"],
+      location_level: ["site", "building", "floor", "zone"],
     },
   },
 } as const
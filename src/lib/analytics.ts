@@ -0,0 +1,175 @@
+import {
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  endOfDay,
+  endOfMonth,
+  format,
+  isSameDay,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  subDays,
+  subMonths,
+} from "date-fns";
+import type { Database, Enums } from "@/integrations/supabase/types";
+
+export type TimeBucket = "day" | "week" | "month";
+
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+export type ResponseTimeGroup = "priority" | "category" | "location" | "assignee";
+
+// Arguments shared by every analytics function; they double as part of the query keys
+export interface AnalyticsRangeArgs {
+  _from: string;
+  _to: string;
+  _category?: string;
+}
+
+export type IncidentStats = Database["public"]["Functions"]["incident_stats"]["Returns"][number];
+export type CategoryCount = Database["public"]["Functions"]["incident_category_counts"]["Returns"][number];
+
+export const EMPTY_INCIDENT_STATS: IncidentStats = {
+  total: 0,
+  open: 0,
+  in_progress: 0,
+  resolved: 0,
+  closed: 0,
+  critical: 0,
+  high: 0,
+  medium: 0,
+  low: 0,
+  mean_time_to_resolve_seconds: null,
+  response_sla_met: 0,
+  response_sla_breached: 0,
+  resolution_sla_met: 0,
+  resolution_sla_breached: 0,
+};
+
+export const TIME_BUCKET_LABELS: Record<TimeBucket, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
+
+export const RESPONSE_TIME_GROUP_LABELS: Record<ResponseTimeGroup, string> = {
+  priority: "Priority",
+  category: "Category",
+  location: "Location",
+  assignee: "Assignee",
+};
+
+// The incident_response_samples column each grouping is keyed on, for drilling into a group
+export const RESPONSE_TIME_GROUP_COLUMNS = {
+  priority: "priority",
+  category: "category_key",
+  location: "location_key",
+  assignee: "assignee_key",
+} as const satisfies Record<ResponseTimeGroup, string>;
+
+// Label for incidents outside the location registry once it is in use
+export const UNMAPPED_LOCATION = "Not in location registry";
+
+const BUCKET_FORMATS: Record<TimeBucket, string> = {
+  day: "MMM d",
+  week: "'Week of' MMM d",
+  month: "MMM yyyy",
+};
+
+export const DATE_RANGE_PRESETS: { label: string; getRange: (today: Date) => DateRange }[] = [
+  { label: "Last 7 days", getRange: (today) => ({ from: startOfDay(subDays(today, 6)), to: endOfDay(today) }) },
+  { label: "Last 30 days", getRange: (today) => ({ from: startOfDay(subDays(today, 29)), to: endOfDay(today) }) },
+  { label: "Last 90 days", getRange: (today) => ({ from: startOfDay(subDays(today, 89)), to: endOfDay(today) }) },
+  { label: "This month", getRange: (today) => ({ from: startOfMonth(today), to: endOfDay(today) }) },
+  {
+    label: "Last month",
+    getRange: (today) => ({ from: startOfMonth(subMonths(today, 1)), to: endOfMonth(subMonths(today, 1)) }),
+  },
+  {
+    label: "Last 12 months",
+    getRange: (today) => ({ from: startOfMonth(subMonths(today, 11)), to: endOfDay(today) }),
+  },
+];
+
+export const DEFAULT_DATE_RANGE_PRESET = DATE_RANGE_PRESETS[1];
+
+export const toRangeArgs = (range: DateRange, category: string | undefined): AnalyticsRangeArgs => ({
+  _from: range.from.toISOString(),
+  _to: range.to.toISOString(),
+  _category: category,
+});
+
+/**
+ * The period a range is compared against. Ranges starting on the first of a month are
+ * compared with the same days of the preceding month(s), so "this month" reads as "vs last
+ * month"; any other range is compared with the same number of days immediately before it.
+ */
+export function getComparisonPeriod(range: DateRange): DateRange & { label: string } {
+  if (isSameDay(range.from, startOfMonth(range.from))) {
+    const months = differenceInCalendarMonths(range.to, range.from) + 1;
+    const to = subMonths(range.to, months);
+    return {
+      from: subMonths(range.from, months),
+      // A whole month is compared with the whole previous month, however long that is
+      to: isSameDay(range.to, endOfMonth(range.to)) ? endOfMonth(to) : to,
+      label: months === 1 ? "last month" : `previous ${months} months`,
+    };
+  }
+
+  const days = differenceInCalendarDays(range.to, range.from) + 1;
+  return {
+    from: subDays(range.from, days),
+    to: subDays(range.to, days),
+    label: days === 1 ? "previous day" : `previous ${days} days`,
+  };
+}
+
+/** Percentage change from the previous value, or null when there is nothing to compare with. */
+export function getPercentChange(current: number, previous: number) {
+  if (previous === 0) return null;
+  return Math.round(((current - previous) / previous) * 100);
+}
+
+export function formatPercentChange(change: number | null, label: string) {
+  if (change === null) return `No data for ${label}`;
+  return `${change > 0 ? "+" : ""}${change}% vs ${label}`;
+}
+
+// Trend periods come back as local times without an offset, so they parse as local dates
+export const formatTrendPeriod = (period: string, bucket: TimeBucket) =>
+  format(parseISO(period), BUCKET_FORMATS[bucket]);
+
+/** Share of decided SLA targets that were met, or null before any target is decided. */
+export function getSlaRate(met: number, breached: number) {
+  if (met + breached === 0) return null;
+  return Math.round((met / (met + breached)) * 100);
+}
+
+export function formatDuration(seconds: number | null) {
+  if (seconds === null) return "—";
+  const totalMinutes = Math.round(seconds / 60);
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
+/** One row per top-level category with a column per priority, ordered by total. */
+export function getCategoryPriorityBreakdown(counts: CategoryCount[]) {
+  const rows = new Map<string, Record<Enums<"incident_priority">, number> & { category: string; total: number }>();
+
+  for (const { category, priority, incident_count } of counts) {
+    if (!rows.has(category)) rows.set(category, { category, total: 0, critical: 0, high: 0, medium: 0, low: 0 });
+    const row = rows.get(category);
+    row[priority] += incident_count;
+    row.total += incident_count;
+  }
+
+  return [...rows.values()].sort((a, b) => b.total - a.total);
+}
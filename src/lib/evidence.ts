@@ -0,0 +1,249 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { readExif, stripExif as stripExifFromFile } from "@/lib/exif";
+
+export const EVIDENCE_BUCKET = "incident-evidence";
+
+export type EvidenceKind = "image" | "video" | "audio" | "pdf" | "document";
+
+// Keep in sync with allowed_mime_types on the incident-evidence bucket
+export const EVIDENCE_MIME_TYPES: Record<string, EvidenceKind> = {
+  "image/jpeg": "image",
+  "image/png": "image",
+  "image/gif": "image",
+  "image/webp": "image",
+  "image/heic": "image",
+  "video/mp4": "video",
+  "video/webm": "video",
+  "video/quicktime": "video",
+  "audio/mpeg": "audio",
+  "audio/mp4": "audio",
+  "audio/wav": "audio",
+  "audio/webm": "audio",
+  "audio/ogg": "audio",
+  "application/pdf": "pdf",
+  "application/msword": "document",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "document",
+  "text/plain": "document",
+};
+
+export const EVIDENCE_ACCEPT = Object.keys(EVIDENCE_MIME_TYPES).join(",");
+
+const MB = 1024 * 1024;
+
+// Keep in sync with the evidence upload policy on storage.objects
+export const MAX_EVIDENCE_BYTES = 10 * MB;
+
+// Video may be raised per deployment, up to the 200MB bucket limit
+export const MAX_VIDEO_EVIDENCE_BYTES =
+  Math.min(Number(import.meta.env.VITE_MAX_VIDEO_UPLOAD_MB) || 100, 200) * MB;
+
+export function getEvidenceKind(mimeType: string | null): EvidenceKind {
+  return (mimeType && EVIDENCE_MIME_TYPES[mimeType]) || "document";
+}
+
+/** Returns why a file cannot be attached as evidence, or null if it is acceptable. */
+export function validateEvidenceFile(file: File): string | null {
+  if (!(file.type in EVIDENCE_MIME_TYPES)) {
+    return `${file.name} is not a supported file type.`;
+  }
+
+  const limit = EVIDENCE_MIME_TYPES[file.type] === "video" ? MAX_VIDEO_EVIDENCE_BYTES : MAX_EVIDENCE_BYTES;
+  if (file.size > limit) {
+    return `${file.name} is larger than ${formatBytes(limit)}.`;
+  }
+
+  return null;
+}
+
+// Whether photo EXIF is removed from stored copies unless the uploader opts out
+export const STRIP_EXIF_DEFAULT = import.meta.env.VITE_STRIP_EXIF_DEFAULT !== "false";
+
+export type CustodyEventType = "view" | "download" | "export" | "verify" | "share";
+
+// Share links are signed URLs handed to people outside the system
+export const EVIDENCE_SHARE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export async function sha256Hex(data: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await data.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function formatBytes(bytes: number | null): string {
+  if (bytes === null || bytes === undefined) return "Unknown size";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${Number((bytes / MB).toFixed(1))} MB`;
+}
+
+// supabase-js does not report upload progress, so the storage endpoint is called directly
+async function uploadToStorage(path: string, file: File, onProgress?: (loaded: number) => void) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("Not authenticated");
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/${EVIDENCE_BUCKET}/${path}`);
+    xhr.setRequestHeader("Authorization", `Bearer ${session.access_token}`);
+    xhr.setRequestHeader("apikey", import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY);
+    xhr.setRequestHeader("Content-Type", file.type);
+    xhr.setRequestHeader("x-upsert", "false");
+    xhr.upload.onprogress = (event) => onProgress?.(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(file.size);
+        resolve();
+        return;
+      }
+      let message = `Upload of ${file.name} failed`;
+      try {
+        message = JSON.parse(xhr.responseText).message ?? message;
+      } catch {
+        // Non-JSON error bodies keep the generic message
+      }
+      reject(new Error(message));
+    };
+    xhr.onerror = () => reject(new Error(`Upload of ${file.name} failed`));
+    xhr.send(file);
+  });
+}
+
+interface UploadEvidenceOptions {
+  incidentUpdateId?: string;
+  // Set when uploading a redacted copy of an existing evidence item
+  derivedFromId?: string;
+  redactions?: Json;
+  stripExif?: boolean;
+  onProgress?: (loaded: number) => void;
+}
+
+/**
+ * Hashes a file in the browser, uploads it to the private evidence bucket and records it
+ * as an evidence item. The upload custody event is written by a database trigger.
+ *
+ * With stripExif, photo metadata is read first and removed from the stored copy; the
+ * recorded sha256 remains that of the original file.
+ */
+export async function uploadEvidenceFile(
+  incidentId: string,
+  file: File,
+  userId: string,
+  { incidentUpdateId, derivedFromId, redactions, stripExif = false, onProgress }: UploadEvidenceOptions = {}
+) {
+  const problem = validateEvidenceFile(file);
+  if (problem) throw new Error(problem);
+
+  const sha256 = await sha256Hex(file);
+  const exif = await readExif(file);
+  // JPEGs are only rewritten when they carry EXIF; other formats cannot be inspected here, so
+  // they are cleaned whenever stripping is on. The file comes back unchanged if it cannot be.
+  const stored = stripExif && (exif || file.type !== "image/jpeg") ? await stripExifFromFile(file) : file;
+  const storedSha256 = stored === file ? sha256 : await sha256Hex(stored);
+  const fileExt = file.name.split(".").pop();
+  const storagePath = `${userId}/${crypto.randomUUID()}.${fileExt}`;
+
+  // Progress is reported against the original size so totals across files stay consistent
+  await uploadToStorage(storagePath, stored, (loaded) => onProgress?.((loaded / (stored.size || 1)) * file.size));
+
+  const { data, error } = await supabase
+    .from("evidence_items")
+    .insert({
+      incident_id: incidentId,
+      incident_update_id: incidentUpdateId,
+      derived_from: derivedFromId,
+      redactions,
+      storage_path: storagePath,
+      sha256,
+      stored_sha256: storedSha256,
+      exif_stripped: stored !== file,
+      original_filename: file.name,
+      size_bytes: file.size,
+      mime_type: file.type,
+      uploaded_by: userId,
+      captured_at: exif?.capturedAt ?? new Date(file.lastModified).toISOString(),
+      gps_latitude: exif?.latitude,
+      gps_longitude: exif?.longitude,
+      camera_make: exif?.make,
+      camera_model: exif?.model,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Uploads several files in sequence, reporting overall progress as a percentage.
+ */
+export async function uploadEvidenceFiles(
+  incidentId: string,
+  files: File[],
+  userId: string,
+  {
+    incidentUpdateId,
+    stripExif,
+    onProgress,
+  }: { incidentUpdateId?: string; stripExif?: boolean; onProgress?: (percent: number) => void } = {}
+) {
+  const totalBytes = files.reduce((total, file) => total + file.size, 0) || 1;
+  let completedBytes = 0;
+
+  for (const file of files) {
+    await uploadEvidenceFile(incidentId, file, userId, {
+      incidentUpdateId,
+      stripExif,
+      onProgress: (loaded) => onProgress?.(Math.round(((completedBytes + loaded) / totalBytes) * 100)),
+    });
+    completedBytes += file.size;
+  }
+}
+
+/** Removes evidence with a recorded reason, then deletes the stored file. */
+export async function removeEvidenceItem(evidenceItemId: string, reason: string) {
+  const { data: storagePath, error } = await supabase.rpc("remove_evidence_item", {
+    _evidence_item_id: evidenceItemId,
+    _reason: reason,
+  });
+
+  if (error) throw error;
+
+  const { error: storageError } = await supabase.storage.from(EVIDENCE_BUCKET).remove([storagePath]);
+  if (storageError) throw storageError;
+}
+
+export async function logCustodyEvents(
+  evidenceItemIds: string[],
+  eventType: CustodyEventType,
+  details?: Record<string, string | number | boolean | null>
+) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user || evidenceItemIds.length === 0) return;
+
+  const { error } = await supabase.from("custody_events").insert(
+    evidenceItemIds.map((evidenceItemId) => ({
+      evidence_item_id: evidenceItemId,
+      event_type: eventType,
+      actor_id: user.id,
+      details,
+    }))
+  );
+
+  if (error) throw error;
+}
+
+/** Creates a time-limited link to a stored file and records the share on its custody trail. */
+export async function createEvidenceShareLink(item: { id: string; storage_path: string; original_filename: string }) {
+  const { data, error } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .createSignedUrl(item.storage_path, EVIDENCE_SHARE_TTL_SECONDS, { download: item.original_filename });
+
+  if (error) throw error;
+
+  await logCustodyEvents([item.id], "share", {
+    expires_at: new Date(Date.now() + EVIDENCE_SHARE_TTL_SECONDS * 1000).toISOString(),
+  });
+  return data.signedUrl;
+}
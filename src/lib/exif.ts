@@ -0,0 +1,261 @@
+// Minimal EXIF support for JPEG photos: enough to read capture time, GPS and camera details,
+// and to drop metadata segments without re-encoding the image. PNG and WebP photos are cleaned
+// by re-encoding; HEIC cannot be decoded by most browsers and keeps its metadata.
+
+export interface ExifMetadata {
+  capturedAt: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  make: string | null;
+  model: string | null;
+  // 1 to 8; how the stored pixels have to be rotated or flipped for display
+  orientation: number | null;
+}
+
+const TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  dateTime: 0x0132,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+} as const;
+
+// Byte sizes of the TIFF field types we read
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type ExifValue = string | number | number[];
+
+const isJpeg = (view: DataView) => view.byteLength > 4 && view.getUint16(0) === 0xffd8;
+
+const isExifSegment = (view: DataView, offset: number) =>
+  view.byteLength >= offset + 10 && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0;
+
+function readIfd(view: DataView, tiffStart: number, ifdOffset: number, little: boolean) {
+  const entries = new Map<number, ExifValue>();
+  const start = tiffStart + ifdOffset;
+  if (start + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const components = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    const valueOffset = size * components > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+    if (valueOffset + size * components > view.byteLength) continue;
+
+    if (type === 2) {
+      let text = "";
+      for (let c = 0; c < components; c++) {
+        const code = view.getUint8(valueOffset + c);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      entries.set(tag, text.trim());
+      continue;
+    }
+
+    const values: number[] = [];
+    for (let c = 0; c < components; c++) {
+      const at = valueOffset + c * size;
+      switch (type) {
+        case 3:
+          values.push(view.getUint16(at, little));
+          break;
+        case 4:
+          values.push(view.getUint32(at, little));
+          break;
+        case 9:
+          values.push(view.getInt32(at, little));
+          break;
+        case 5:
+          values.push(view.getUint32(at, little) / view.getUint32(at + 4, little));
+          break;
+        case 10:
+          values.push(view.getInt32(at, little) / view.getInt32(at + 4, little));
+          break;
+        default:
+          values.push(view.getUint8(at));
+      }
+    }
+    entries.set(tag, values.length === 1 ? values[0] : values);
+  }
+
+  return entries;
+}
+
+// EXIF dates are "YYYY:MM:DD HH:MM:SS" with an optional separate UTC offset
+function parseExifDate(value: ExifValue | undefined, offset: ExifValue | undefined): string | null {
+  if (typeof value !== "string") return null;
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const date =
+    typeof offset === "string" && /^[+-]\d{2}:\d{2}$/.test(offset)
+      ? new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`)
+      : new Date(+year, +month - 1, +day, +hour, +minute, +second);
+
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function parseCoordinate(value: ExifValue | undefined, ref: ExifValue | undefined): number | null {
+  if (!Array.isArray(value) || value.length !== 3 || value.some((part) => !Number.isFinite(part))) return null;
+  const [degrees, minutes, seconds] = value;
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+  return ref === "S" || ref === "W" ? -decimal : decimal;
+}
+
+function parseExif(view: DataView): ExifMetadata | null {
+  let offset = 2;
+  while (offset + 4 <= view.byteLength && view.getUint8(offset) === 0xff) {
+    const marker = view.getUint8(offset + 1);
+    if (marker === 0xda || marker === 0xd9) break;
+
+    if (marker === 0xe1 && isExifSegment(view, offset)) {
+      const tiffStart = offset + 10;
+      const little = view.getUint16(tiffStart) === 0x4949;
+      const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+      const exifPointer = ifd0.get(TAGS.exifIfd);
+      const gpsPointer = ifd0.get(TAGS.gpsIfd);
+      const exif = typeof exifPointer === "number" ? readIfd(view, tiffStart, exifPointer, little) : new Map();
+      const gps = typeof gpsPointer === "number" ? readIfd(view, tiffStart, gpsPointer, little) : new Map();
+
+      const latitude = parseCoordinate(gps.get(TAGS.gpsLatitude), gps.get(TAGS.gpsLatitudeRef));
+      const longitude = parseCoordinate(gps.get(TAGS.gpsLongitude), gps.get(TAGS.gpsLongitudeRef));
+      const make = ifd0.get(TAGS.make);
+      const model = ifd0.get(TAGS.model);
+      const orientation = ifd0.get(TAGS.orientation);
+
+      return {
+        capturedAt:
+          parseExifDate(exif.get(TAGS.dateTimeOriginal), exif.get(TAGS.offsetTimeOriginal)) ??
+          parseExifDate(ifd0.get(TAGS.dateTime), undefined),
+        latitude: latitude !== null && longitude !== null ? latitude : null,
+        longitude: latitude !== null && longitude !== null ? longitude : null,
+        make: typeof make === "string" && make ? make : null,
+        model: typeof model === "string" && model ? model : null,
+        orientation: typeof orientation === "number" && orientation >= 1 && orientation <= 8 ? orientation : null,
+      };
+    }
+
+    offset += 2 + view.getUint16(offset + 2);
+  }
+
+  return null;
+}
+
+/**
+ * Reads EXIF metadata from a JPEG. Returns null for other formats, photos without EXIF and
+ * metadata too damaged to read, so a bad EXIF block never stops the photo being used.
+ */
+export async function readExif(file: Blob): Promise<ExifMetadata | null> {
+  if (file.type !== "image/jpeg") return null;
+
+  const view = new DataView(await file.arrayBuffer());
+  if (!isJpeg(view)) return null;
+
+  try {
+    return parseExif(view);
+  } catch {
+    // Truncated segments and offsets pointing past the end of the file
+    return null;
+  }
+}
+
+// An APP1 segment holding nothing but the Orientation tag, so stripped photos display upright
+function orientationSegment(orientation: number): Uint8Array {
+  const segment = new Uint8Array(36);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, 34); // Segment length, excluding the marker
+  view.setUint32(4, 0x45786966); // "Exif" followed by two zero bytes
+  view.setUint16(10, 0x4d4d); // Big-endian TIFF header
+  view.setUint16(12, 0x002a);
+  view.setUint32(14, 8); // IFD0 straight after the header
+  view.setUint16(18, 1); // One entry
+  view.setUint16(20, TAGS.orientation);
+  view.setUint16(22, 3); // SHORT
+  view.setUint32(24, 1);
+  view.setUint16(28, orientation);
+  // No next IFD: the remaining bytes stay zero
+  return segment;
+}
+
+// Image types whose metadata can be removed in the browser
+const STRIPPABLE_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+export const canStripMetadata = (mimeType: string) => STRIPPABLE_IMAGE_TYPES.includes(mimeType);
+
+// Drawing to a canvas keeps only the pixels, upright since decoding applies any orientation
+async function reencodeImage(file: File): Promise<File> {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return file;
+
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, file.type, 1));
+
+  // Browsers without an encoder for the type fall back to PNG; the original is kept then
+  if (!blob || blob.type !== file.type) return file;
+  return new File([blob], file.name, { type: file.type, lastModified: file.lastModified });
+}
+
+/**
+ * Returns a copy of a photo without its metadata. JPEGs lose their APP1 segments (EXIF and
+ * XMP) with the image data untouched; the orientation is kept in a minimal EXIF segment of
+ * its own, since phones store photos sideways and rely on it. PNG and WebP are re-encoded.
+ * Anything else, HEIC included, is returned unchanged.
+ */
+export async function stripExif(file: File): Promise<File> {
+  if (file.type === "image/png" || file.type === "image/webp") return reencodeImage(file);
+  if (file.type !== "image/jpeg") return file;
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  if (!isJpeg(view)) return file;
+
+  // 1 is the default orientation and needs no tag
+  const orientation = (await readExif(file))?.orientation;
+  let orientationPending = !!orientation && orientation !== 1;
+
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.byteLength && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const end = offset + 2 + view.getUint16(offset + 2);
+    if (marker !== 0xe1) {
+      kept.push(bytes.subarray(offset, end));
+    } else if (orientationPending && isExifSegment(view, offset)) {
+      // Takes the place of the original EXIF segment
+      kept.push(orientationSegment(orientation));
+      orientationPending = false;
+    }
+    offset = end;
+  }
+  kept.push(bytes.subarray(offset));
+
+  return new File(kept, file.name, { type: file.type, lastModified: file.lastModified });
+}
+
+export function formatCoordinates(latitude: number, longitude: number): string {
+  return `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`;
+}
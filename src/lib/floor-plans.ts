@@ -0,0 +1,81 @@
+import type { MouseEvent } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums, Tables } from "@/integrations/supabase/types";
+import { LocationIndex, getAncestorAtLevel } from "@/lib/locations";
+
+export type FloorPlan = Tables<"floor_plans">;
+
+export const FLOOR_PLAN_BUCKET = "floor-plans";
+
+// Must match the floor-plans bucket configuration
+export const FLOOR_PLAN_MIME_TYPES = ["image/png", "image/jpeg", "image/webp"];
+export const MAX_FLOOR_PLAN_BYTES = 20 * 1024 * 1024;
+
+// Ordered from most to least urgent, which is also the order of the map legend
+export const PIN_COLORS: Record<Enums<"incident_priority">, string> = {
+  critical: "bg-priority-critical",
+  high: "bg-priority-high",
+  medium: "bg-priority-medium",
+  low: "bg-priority-low",
+};
+
+export interface PlanPin {
+  x: number;
+  y: number;
+}
+
+/** Position of a pointer event as fractions of the element it happened on. */
+export function toPlanPosition(e: MouseEvent<HTMLElement>): PlanPin {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+  return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+}
+
+/** The plan of the building a location belongs to, if that building has one. */
+export function findFloorPlan(plans: FloorPlan[] | undefined, index: LocationIndex, locationId: string | null) {
+  if (!locationId || !index.has(locationId)) return undefined;
+  const building = getAncestorAtLevel(index, locationId, "building");
+  return building.level === "building" ? plans?.find((plan) => plan.location_id === building.id) : undefined;
+}
+
+async function readImageSize(file: File) {
+  const bitmap = await createImageBitmap(file);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+}
+
+/**
+ * Stores a plan image for a building, replacing any previous one. Existing pins are kept,
+ * so a replacement should show the same layout.
+ */
+export async function uploadFloorPlan(locationId: string, file: File, userId: string, previous?: FloorPlan) {
+  if (!FLOOR_PLAN_MIME_TYPES.includes(file.type)) throw new Error("Floor plans must be PNG, JPEG or WebP images");
+  if (file.size > MAX_FLOOR_PLAN_BYTES) throw new Error("Floor plans can be at most 20 MB");
+
+  const { width, height } = await readImageSize(file);
+  const fileExt = file.name.split(".").pop();
+  const storagePath = `${locationId}/${crypto.randomUUID()}.${fileExt}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(FLOOR_PLAN_BUCKET)
+    .upload(storagePath, file, { contentType: file.type });
+
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from("floor_plans")
+    .upsert(
+      { location_id: locationId, storage_path: storagePath, width, height, uploaded_by: userId },
+      { onConflict: "location_id" }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  // The old image is no longer referenced; failing to remove it only leaves an orphan behind
+  if (previous) await supabase.storage.from(FLOOR_PLAN_BUCKET).remove([previous.storage_path]);
+
+  return data;
+}
@@ -0,0 +1,83 @@
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  Camera,
+  Car,
+  CircleHelp,
+  DoorOpen,
+  Droplets,
+  Eye,
+  Flame,
+  Hammer,
+  HeartPulse,
+  KeyRound,
+  Laptop,
+  Lock,
+  Package,
+  ShieldAlert,
+  Siren,
+  Tag,
+  Users,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+
+export type Category = Tables<"categories">;
+
+// Icons an admin can choose from, keyed by the name stored in categories.icon
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  camera: Camera,
+  car: Car,
+  "circle-help": CircleHelp,
+  "door-open": DoorOpen,
+  droplets: Droplets,
+  eye: Eye,
+  flame: Flame,
+  hammer: Hammer,
+  "heart-pulse": HeartPulse,
+  "key-round": KeyRound,
+  laptop: Laptop,
+  lock: Lock,
+  package: Package,
+  "shield-alert": ShieldAlert,
+  siren: Siren,
+  users: Users,
+  zap: Zap,
+};
+
+export const getCategoryIcon = (icon: string | null | undefined): LucideIcon =>
+  (icon && CATEGORY_ICONS[icon]) || Tag;
+
+// Slugs are what incidents store, so they only use lowercase letters, digits and underscores
+export const toCategorySlug = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+export const getTopLevelCategories = (categories: Category[]) =>
+  categories.filter((category) => !category.parent_id);
+
+export const getSubcategories = (categories: Category[], parentId: string) =>
+  categories.filter((category) => category.parent_id === parentId);
+
+/** The top-level category a slug rolls up to; subcategories resolve to their parent. */
+export function getRootCategory(categories: Category[] | undefined, slug: string) {
+  const category = categories?.find((c) => c.slug === slug);
+  if (!category?.parent_id) return category;
+  return categories.find((c) => c.id === category.parent_id) ?? category;
+}
+
+/** Display name such as "Theft › Vehicle", falling back to the slug while categories load. */
+export function getCategoryLabel(categories: Category[] | undefined, slug: string) {
+  const category = categories?.find((c) => c.slug === slug);
+  if (!category) return slug.replace(/_/g, " ");
+  const parent = category.parent_id && categories.find((c) => c.id === category.parent_id);
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+}
+
+/** A slug together with the slugs of its subcategories, so filtering on a parent includes them. */
+export function getCategoryFamily(categories: Category[] | undefined, slug: string) {
+  const category = categories?.find((c) => c.slug === slug);
+  if (!category) return [slug];
+  return [slug, ...getSubcategories(categories, category.id).map((c) => c.slug)];
+}
@@ -0,0 +1,43 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+// The incident fields a reporter fills in and staff can edit afterwards
+export interface IncidentFieldValues {
+  title: string;
+  description: string;
+  priority: Enums<"incident_priority">;
+  category: string;
+  location: string;
+  // Registry entry behind location; null for free text entered before the registry existed
+  location_id: string | null;
+  // Optional pin on the floor plan of the location's building, as fractions of the image size
+  floor_plan_id: string | null;
+  plan_x: number | null;
+  plan_y: number | null;
+}
+
+type PlanPinField = "floor_plan_id" | "plan_x" | "plan_y";
+
+export const EMPTY_INCIDENT_FIELDS: IncidentFieldValues = {
+  title: "",
+  description: "",
+  priority: "medium",
+  category: "",
+  location: "",
+  location_id: null,
+  floor_plan_id: null,
+  plan_x: null,
+  plan_y: null,
+};
+
+export const NO_PLAN_PIN: Pick<IncidentFieldValues, PlanPinField> = { floor_plan_id: null, plan_x: null, plan_y: null };
+
+// location_id has no label of its own; changes show up as a change of the location path.
+// The plan pin is recorded as a single change rather than one per column. Keep the labels in
+// sync with public.log_incident_field_changes, which writes the timeline entries.
+export const INCIDENT_FIELD_LABELS: Record<Exclude<keyof IncidentFieldValues, "location_id" | PlanPinField>, string> = {
+  title: "Title",
+  description: "Description",
+  priority: "Priority",
+  category: "Category",
+  location: "Location",
+};
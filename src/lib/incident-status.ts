@@ -0,0 +1,35 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type IncidentStatus = Database["public"]["Enums"]["incident_status"];
+
+// Keep in sync with public.is_valid_status_transition in supabase/migrations
+export const STATUS_TRANSITIONS: Record<IncidentStatus, IncidentStatus[]> = {
+  open: ["in_progress", "resolved"],
+  in_progress: ["open", "resolved"],
+  resolved: ["in_progress", "closed"],
+  closed: ["open"],
+};
+
+export const STATUS_LABELS: Record<IncidentStatus, string> = {
+  open: "Open",
+  in_progress: "In Progress",
+  resolved: "Resolved",
+  closed: "Closed",
+};
+
+export function getAllowedTransitions(status: IncidentStatus): IncidentStatus[] {
+  return STATUS_TRANSITIONS[status] ?? [];
+}
+
+export function canTransition(from: IncidentStatus, to: IncidentStatus): boolean {
+  return getAllowedTransitions(from).includes(to);
+}
+
+export function requiresResolutionNotes(to: IncidentStatus): boolean {
+  return to === "resolved";
+}
+
+// Also enforced by the status transition trigger, which rejects a reopen without reopen_reason
+export function requiresReopenReason(from: IncidentStatus): boolean {
+  return from === "closed";
+}
@@ -0,0 +1,129 @@
+import { Constants, type Enums, type Tables } from "@/integrations/supabase/types";
+
+export type Location = Tables<"locations">;
+export type LocationLevel = Enums<"location_level">;
+export type LocationIndex = Map<string, Location>;
+
+export const LOCATION_LEVELS = Constants.public.Enums.location_level;
+
+export const LOCATION_LEVEL_LABELS: Record<LocationLevel, string> = {
+  site: "Site",
+  building: "Building",
+  floor: "Floor",
+  zone: "Zone",
+};
+
+// Matches the separator used by location_path() in the database
+export const LOCATION_PATH_SEPARATOR = " › ";
+
+// Photos taken further than this from every registered location are not used as a suggestion
+const MAX_SUGGESTION_DISTANCE_METERS = 500;
+
+// Until an admin sets up the registry, incidents fall back to a free-text location
+export const hasLocationRegistry = (locations: Location[] | undefined) =>
+  locations?.some((location) => location.is_active) ?? false;
+
+export const indexLocations = (locations: Location[] | undefined): LocationIndex =>
+  new Map((locations ?? []).map((location) => [location.id, location]));
+
+/** The level that children of a location have, or null for zones. */
+export const getChildLevel = (level: LocationLevel): LocationLevel | null =>
+  LOCATION_LEVELS[LOCATION_LEVELS.indexOf(level) + 1] ?? null;
+
+/** The location and its ancestors, ordered from the site down. */
+export function getLocationChain(index: LocationIndex, id: string | null | undefined): Location[] {
+  const chain: Location[] = [];
+  let current = id ? index.get(id) : undefined;
+  while (current) {
+    chain.unshift(current);
+    current = current.parent_id ? index.get(current.parent_id) : undefined;
+  }
+  return chain;
+}
+
+export const getLocationPath = (index: LocationIndex, id: string | null | undefined) =>
+  getLocationChain(index, id)
+    .map((location) => location.name)
+    .join(LOCATION_PATH_SEPARATOR);
+
+/**
+ * The ancestor at the given level, used to roll counts up the hierarchy. Locations above
+ * that level (an incident recorded against a whole building when rolling up by floor)
+ * are returned as they are.
+ */
+export function getAncestorAtLevel(index: LocationIndex, id: string, level: LocationLevel) {
+  const chain = getLocationChain(index, id);
+  return chain[Math.min(LOCATION_LEVELS.indexOf(level), chain.length - 1)];
+}
+
+export const getChildLocations = (locations: Location[], parentId: string | null) =>
+  locations.filter((location) => location.parent_id === parentId);
+
+// "Bldg. A, Flr 2" and "Building A Floor 2" normalise to the same string
+const ABBREVIATIONS: Record<string, string> = {
+  bldg: "building",
+  blg: "building",
+  bld: "building",
+  fl: "floor",
+  flr: "floor",
+  lvl: "level",
+  rm: "room",
+  ste: "suite",
+};
+
+export function normalizeLocationText(text: string) {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => ABBREVIATIONS[word] ?? word)
+    .join(" ");
+}
+
+/**
+ * Finds the registry entry a free-text location most likely refers to, by comparing it with
+ * each location's name, aliases and path (with and without the site). The deepest match wins.
+ */
+export function suggestLocation(index: LocationIndex, text: string): Location | undefined {
+  const target = normalizeLocationText(text);
+  if (!target) return undefined;
+
+  let best: Location | undefined;
+  for (const location of index.values()) {
+    const chain = getLocationChain(index, location.id);
+    const names = chain.map((l) => l.name).join(" ");
+    const withoutSite = chain.slice(1).map((l) => l.name).join(" ");
+    const candidates = [location.name, ...location.aliases, names, withoutSite].map(normalizeLocationText);
+
+    if (candidates.includes(target) && (!best || chain.length > getLocationChain(index, best.id).length)) {
+      best = location;
+    }
+  }
+  return best;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+function distanceInMeters(lat1: number, lon1: number, lat2: number, lon2: number) {
+  const earthRadius = 6_371_000;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * earthRadius * Math.asin(Math.sqrt(a));
+}
+
+/** The closest active location with coordinates, if one is near enough to be a useful suggestion. */
+export function findNearestLocation(locations: Location[], latitude: number, longitude: number) {
+  let nearest: Location | undefined;
+  let nearestDistance = MAX_SUGGESTION_DISTANCE_METERS;
+  for (const location of locations) {
+    if (!location.is_active || location.latitude == null || location.longitude == null) continue;
+    const distance = distanceInMeters(latitude, longitude, location.latitude, location.longitude);
+    if (distance <= nearestDistance) {
+      nearest = location;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
@@ -0,0 +1,75 @@
+export type RedactionStyle = "blur" | "black";
+
+// Box coordinates are fractions of the image size, so they are independent of display scale.
+// A type alias rather than an interface so boxes can be stored as JSON directly.
+export type RedactionBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  style: RedactionStyle;
+};
+
+// Blur is produced by scaling the region down this far and back up. Unlike a CSS filter
+// it works in every browser, and the original pixels cannot be recovered.
+const BLUR_SCALE = 1 / 24;
+
+export function normalizeBox(
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+  style: RedactionStyle
+): RedactionBox {
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+  const x1 = clamp(Math.min(start.x, end.x));
+  const y1 = clamp(Math.min(start.y, end.y));
+  const x2 = clamp(Math.max(start.x, end.x));
+  const y2 = clamp(Math.max(start.y, end.y));
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1, style };
+}
+
+/** Draws the image with every box blurred or blacked out and returns it as a new file. */
+export async function renderRedactedImage(
+  image: HTMLImageElement,
+  boxes: RedactionBox[],
+  filename: string,
+  mimeType: string
+): Promise<File> {
+  const canvas = document.createElement("canvas");
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+
+  ctx.drawImage(image, 0, 0);
+
+  const scratch = document.createElement("canvas");
+  const scratchCtx = scratch.getContext("2d");
+
+  for (const box of boxes) {
+    const x = Math.round(box.x * canvas.width);
+    const y = Math.round(box.y * canvas.height);
+    const width = Math.max(1, Math.round(box.width * canvas.width));
+    const height = Math.max(1, Math.round(box.height * canvas.height));
+
+    if (box.style === "black" || !scratchCtx) {
+      ctx.fillStyle = "#000";
+      ctx.fillRect(x, y, width, height);
+      continue;
+    }
+
+    scratch.width = Math.max(1, Math.round(width * BLUR_SCALE));
+    scratch.height = Math.max(1, Math.round(height * BLUR_SCALE));
+    scratchCtx.imageSmoothingEnabled = true;
+    scratchCtx.drawImage(canvas, x, y, width, height, 0, 0, scratch.width, scratch.height);
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(scratch, 0, 0, scratch.width, scratch.height, x, y, width, height);
+  }
+
+  // PNG sources stay lossless; everything else is written as JPEG
+  const type = mimeType === "image/png" ? "image/png" : "image/jpeg";
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.92));
+  if (!blob) throw new Error("Could not render the redacted image");
+
+  const baseName = filename.replace(/\.[^.]+$/, "");
+  return new File([blob], `${baseName}-redacted.${type === "image/png" ? "png" : "jpg"}`, { type });
+}
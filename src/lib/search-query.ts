@@ -0,0 +1,38 @@
+import { Constants, type Enums } from "@/integrations/supabase/types";
+
+export const SEARCH_FIELDS = ["location", "priority", "status", "category"] as const;
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+export interface ParsedSearchQuery {
+  text: string;
+  fields: Partial<Record<SearchField, string>>;
+}
+
+// Matches field:value and field:"quoted value"
+const FIELD_PATTERN = /(\w+):(?:"([^"]*)"|(\S+))/g;
+
+/**
+ * Splits a search box query such as `location:"Building A" priority:high broken door`
+ * into field filters and the remaining free text. Unknown fields stay in the free text.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const fields: ParsedSearchQuery["fields"] = {};
+
+  const text = input.replace(FIELD_PATTERN, (match, name: string, quoted?: string, bare?: string) => {
+    const field = name.toLowerCase() as SearchField;
+    if (!SEARCH_FIELDS.includes(field)) return match;
+
+    const value = (quoted ?? bare ?? "").trim();
+    if (value) {
+      fields[field] = field === "location" ? value : value.toLowerCase().replace(/\s+/g, "_");
+    }
+    return " ";
+  });
+
+  return { text: text.replace(/\s+/g, " ").trim(), fields };
+}
+
+// Narrows a filter value to a database enum member, dropping "all" and typos from the search syntax
+export const validEnum = <E extends "incident_status" | "incident_priority">(enumName: E, value: string) =>
+  (Constants.public.Enums[enumName] as readonly string[]).includes(value) ? (value as Enums<E>) : null;
@@ -0,0 +1,51 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type SlaState = "pending" | "met" | "breached" | "none";
+
+export interface SlaTarget {
+  state: SlaState;
+  dueAt: Date | null;
+  // Positive while time remains, negative once overdue
+  remainingMs: number | null;
+}
+
+export type SlaFields = Pick<
+  Tables<"incidents">,
+  "acknowledged_at" | "resolved_at" | "response_due_at" | "resolution_due_at"
+>;
+
+export function getSlaTarget(dueAt: string | null, completedAt: string | null, now = new Date()): SlaTarget {
+  if (!dueAt) return { state: "none", dueAt: null, remainingMs: null };
+
+  const due = new Date(dueAt);
+  if (completedAt) {
+    return {
+      state: new Date(completedAt) <= due ? "met" : "breached",
+      dueAt: due,
+      remainingMs: null,
+    };
+  }
+
+  const remainingMs = due.getTime() - now.getTime();
+  return { state: remainingMs < 0 ? "breached" : "pending", dueAt: due, remainingMs };
+}
+
+export function getIncidentSla(incident: SlaFields, now = new Date()) {
+  return {
+    response: getSlaTarget(incident.response_due_at, incident.acknowledged_at, now),
+    resolution: getSlaTarget(incident.resolution_due_at, incident.resolved_at, now),
+  };
+}
+
+export function formatSlaRemaining(ms: number): string {
+  const totalMinutes = Math.floor(Math.abs(ms) / 60_000);
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  let text = `${minutes}m`;
+  if (days > 0) text = `${days}d ${hours}h`;
+  else if (hours > 0) text = `${hours}h ${minutes}m`;
+
+  return ms < 0 ? `${text} overdue` : `${text} left`;
+}
@@ -0,0 +1,77 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { sha256Hex } from "@/lib/evidence";
+
+type ChainedUpdate = Pick<
+  Tables<"incident_updates">,
+  | "id"
+  | "sequence"
+  | "incident_id"
+  | "user_id"
+  | "update_type"
+  | "content"
+  | "created_at"
+  | "content_hash"
+  | "previous_hash"
+  | "entry_hash"
+>;
+
+export interface TimelineIntegrityResult {
+  valid: boolean;
+  entries: number;
+  // Sequence number of the first entry that fails verification
+  brokenAt?: number;
+  reason?: string;
+}
+
+export const TIMELINE_CHAIN_COLUMNS =
+  "id, sequence, incident_id, user_id, update_type, content, created_at, content_hash, previous_hash, entry_hash";
+
+const sha256Text = (text: string) => sha256Hex(new Blob([text]));
+
+// Mirrors public.incident_update_entry_hash
+const computeEntryHash = (update: ChainedUpdate) =>
+  sha256Text(
+    [
+      update.sequence,
+      update.incident_id,
+      update.user_id ?? "",
+      update.update_type,
+      new Date(update.created_at).getTime(),
+      update.content_hash,
+      update.previous_hash ?? "",
+    ].join("|")
+  );
+
+/**
+ * Recomputes the hash chain of an incident timeline and reports the first entry that does
+ * not follow from the one before it.
+ */
+export async function verifyTimelineChain(updates: ChainedUpdate[]): Promise<TimelineIntegrityResult> {
+  const ordered = [...updates].sort((a, b) => a.sequence - b.sequence);
+
+  for (let index = 0; index < ordered.length; index++) {
+    const update = ordered[index];
+    const previous = index > 0 ? ordered[index - 1] : null;
+    const broken = (reason: string): TimelineIntegrityResult => ({
+      valid: false,
+      entries: ordered.length,
+      brokenAt: update.sequence,
+      reason,
+    });
+
+    if (update.sequence !== index + 1) {
+      return broken(`Entry ${index + 1} is missing from the timeline`);
+    }
+    if (update.previous_hash !== (previous?.entry_hash ?? null)) {
+      return broken(`Entry ${update.sequence} does not link to the entry before it`);
+    }
+    if ((await sha256Text(update.content)) !== update.content_hash) {
+      return broken(`The content of entry ${update.sequence} has been altered`);
+    }
+    if ((await computeEntryHash(update)) !== update.entry_hash) {
+      return broken(`The details of entry ${update.sequence} have been altered`);
+    }
+  }
+
+  return { valid: true, entries: ordered.length };
+}
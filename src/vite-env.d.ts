@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MAX_VIDEO_UPLOAD_MB?: string;
+  readonly VITE_STRIP_EXIF_DEFAULT?: string;
+}
@@ -0,0 +1,188 @@
+-- Replace free-text profile roles with an enum
+CREATE TYPE app_role AS ENUM ('reporter', 'security_officer', 'supervisor', 'admin');
+
+ALTER TABLE public.profiles ALTER COLUMN role DROP DEFAULT;
+
+ALTER TABLE public.profiles
+  ALTER COLUMN role TYPE app_role
+  USING (
+    CASE
+      WHEN role IN ('reporter', 'security_officer', 'supervisor', 'admin') THEN role::app_role
+      ELSE 'security_officer'::app_role
+    END
+  );
+
+ALTER TABLE public.profiles ALTER COLUMN role SET DEFAULT 'reporter';
+
+-- Role lookup helpers (security definer so policies can read profiles without recursion)
+CREATE OR REPLACE FUNCTION public.get_user_role(_user_id UUID)
+RETURNS app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.profiles WHERE id = _user_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_any_role(_user_id UUID, _roles app_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = _user_id AND role = ANY(_roles)
+  )
+$$;
+
+-- Only admins may change a role; service-role connections (no auth.uid()) are exempt
+CREATE OR REPLACE FUNCTION public.prevent_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+     AND auth.uid() IS NOT NULL
+     AND NOT public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]) THEN
+    RAISE EXCEPTION 'Only admins can change user roles';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_profiles_role_change
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_role_change();
+
+-- Profiles policies
+DROP POLICY "Users can insert own profile" ON public.profiles;
+
+CREATE POLICY "Users can insert own profile"
+  ON public.profiles FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = id AND role = 'reporter');
+
+CREATE POLICY "Admins can update any profile"
+  ON public.profiles FOR UPDATE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]));
+
+-- Incidents policies
+DROP POLICY "Authenticated users can view all incidents" ON public.incidents;
+DROP POLICY "Authenticated users can update incidents" ON public.incidents;
+
+CREATE POLICY "Staff can view all incidents"
+  ON public.incidents FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['security_officer', 'supervisor', 'admin']::app_role[]));
+
+CREATE POLICY "Reporters can view own incidents"
+  ON public.incidents FOR SELECT
+  TO authenticated
+  USING (auth.uid() = reporter_id);
+
+CREATE POLICY "Staff can update incidents"
+  ON public.incidents FOR UPDATE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['security_officer', 'supervisor', 'admin']::app_role[]));
+
+CREATE POLICY "Admins can delete incidents"
+  ON public.incidents FOR DELETE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]));
+
+-- Reporters cannot triage their own reports
+CREATE OR REPLACE FUNCTION public.enforce_reporter_incident_defaults()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_user_role(auth.uid()) = 'reporter' THEN
+    NEW.priority := 'medium';
+    NEW.status := 'open';
+    NEW.assigned_to := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_incidents_reporter_defaults
+  BEFORE INSERT ON public.incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_reporter_incident_defaults();
+
+-- Incident updates policies
+DROP POLICY "Authenticated users can view incident updates" ON public.incident_updates;
+DROP POLICY "Authenticated users can create incident updates" ON public.incident_updates;
+
+CREATE POLICY "Users can view updates on visible incidents"
+  ON public.incident_updates FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.incidents i WHERE i.id = incident_id)
+  );
+
+CREATE POLICY "Staff can create incident updates"
+  ON public.incident_updates FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.has_any_role(auth.uid(), ARRAY['security_officer', 'supervisor', 'admin']::app_role[])
+  );
+
+CREATE POLICY "Reporters can comment on own incidents"
+  ON public.incident_updates FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND update_type = 'comment'
+    AND EXISTS (
+      SELECT 1 FROM public.incidents i
+      WHERE i.id = incident_id AND i.reporter_id = auth.uid()
+    )
+  );
+
+-- Storage policies for incident evidence
+DROP POLICY "Authenticated users can view incident evidence" ON storage.objects;
+DROP POLICY "Authenticated users can upload incident evidence" ON storage.objects;
+
+CREATE POLICY "Staff can view incident evidence"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'incident-evidence'
+    AND public.has_any_role(auth.uid(), ARRAY['security_officer', 'supervisor', 'admin']::app_role[])
+  );
+
+CREATE POLICY "Uploaders can view own incident evidence"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'incident-evidence'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can upload evidence to own folder"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'incident-evidence'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Admins can delete incident evidence"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'incident-evidence'
+    AND public.has_any_role(auth.uid(), ARRAY['admin']::app_role[])
+  );
+
+CREATE INDEX idx_profiles_role ON public.profiles(role);
@@ -0,0 +1,61 @@
+-- Resolution notes captured when an incident moves to resolved
+ALTER TABLE public.incidents ADD COLUMN resolution_notes TEXT;
+
+-- Reason given when a closed incident is reopened; cleared again once it is resolved or closed
+ALTER TABLE public.incidents ADD COLUMN reopen_reason TEXT;
+
+-- Allowed status transitions (keep in sync with src/lib/incident-status.ts)
+CREATE OR REPLACE FUNCTION public.is_valid_status_transition(_from incident_status, _to incident_status)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (_from, _to) IN (
+    ('open'::incident_status, 'in_progress'::incident_status),
+    ('open', 'resolved'),
+    ('in_progress', 'open'),
+    ('in_progress', 'resolved'),
+    ('resolved', 'in_progress'),
+    ('resolved', 'closed'),
+    ('closed', 'open')
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_incident_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.is_valid_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF OLD.status = 'closed' AND coalesce(btrim(NEW.reopen_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reopen a closed incident';
+  END IF;
+
+  IF NEW.status = 'resolved' THEN
+    IF coalesce(btrim(NEW.resolution_notes), '') = '' THEN
+      RAISE EXCEPTION 'Resolution notes are required to resolve an incident';
+    END IF;
+    NEW.resolved_at := now();
+    NEW.reopen_reason := NULL;
+  ELSIF NEW.status = 'closed' THEN
+    NEW.reopen_reason := NULL;
+  ELSIF NEW.status IN ('open', 'in_progress') THEN
+    NEW.resolved_at := NULL;
+    NEW.resolution_notes := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_incidents_status_transition
+  BEFORE UPDATE OF status ON public.incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_incident_status_transition();
@@ -0,0 +1,107 @@
+-- SLA policies keyed by priority, optionally narrowed to a category
+CREATE TABLE public.sla_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  priority incident_priority NOT NULL,
+  category TEXT,
+  response_minutes INTEGER NOT NULL CHECK (response_minutes > 0),
+  resolution_minutes INTEGER NOT NULL CHECK (resolution_minutes > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_sla_policies_priority_category
+  ON public.sla_policies(priority, coalesce(category, ''));
+
+INSERT INTO public.sla_policies (priority, response_minutes, resolution_minutes) VALUES
+  ('critical', 15, 240),
+  ('high', 60, 480),
+  ('medium', 240, 1440),
+  ('low', 1440, 4320);
+
+ALTER TABLE public.sla_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view SLA policies"
+  ON public.sla_policies FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage SLA policies"
+  ON public.sla_policies FOR ALL
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]));
+
+CREATE TRIGGER update_sla_policies_updated_at
+  BEFORE UPDATE ON public.sla_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- SLA deadlines and acknowledgement time on incidents
+ALTER TABLE public.incidents
+  ADD COLUMN acknowledged_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN response_due_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN resolution_due_at TIMESTAMP WITH TIME ZONE;
+
+-- Category-specific policies win over the priority-wide default
+CREATE OR REPLACE FUNCTION public.find_sla_policy(_priority incident_priority, _category TEXT)
+RETURNS public.sla_policies
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.sla_policies
+  WHERE priority = _priority
+    AND (category = _category OR category IS NULL)
+  ORDER BY category IS NULL
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_incident_sla()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy public.sla_policies;
+BEGIN
+  IF TG_OP = 'INSERT'
+     OR NEW.response_due_at IS NULL
+     OR NEW.priority IS DISTINCT FROM OLD.priority
+     OR NEW.category IS DISTINCT FROM OLD.category THEN
+    policy := public.find_sla_policy(NEW.priority, NEW.category);
+    NEW.response_due_at := NEW.created_at + make_interval(mins => policy.response_minutes);
+    NEW.resolution_due_at := NEW.created_at + make_interval(mins => policy.resolution_minutes);
+  END IF;
+
+  -- First move off "open" or first assignment acknowledges the incident
+  IF TG_OP = 'UPDATE'
+     AND NEW.acknowledged_at IS NULL
+     AND (NEW.status <> 'open' OR NEW.assigned_to IS NOT NULL) THEN
+    NEW.acknowledged_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- BEFORE triggers fire in name order; this one must follow enforce_incidents_reporter_defaults
+-- so deadlines are computed from the priority that is actually stored
+CREATE TRIGGER set_incidents_sla
+  BEFORE INSERT OR UPDATE ON public.incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_incident_sla();
+
+-- Backfill existing incidents (the trigger fills in the missing deadlines). updated_at is
+-- left alone so it keeps recording the real last activity.
+ALTER TABLE public.incidents DISABLE TRIGGER update_incidents_updated_at;
+
+UPDATE public.incidents
+SET acknowledged_at = CASE WHEN status <> 'open' OR assigned_to IS NOT NULL THEN updated_at END;
+
+ALTER TABLE public.incidents ENABLE TRIGGER update_incidents_updated_at;
+
+CREATE INDEX idx_incidents_response_due_at ON public.incidents(response_due_at);
+CREATE INDEX idx_incidents_resolution_due_at ON public.incidents(resolution_due_at);
@@ -0,0 +1,163 @@
+-- Escalation rules evaluated by public.run_escalations()
+CREATE TABLE public.escalation_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  priority incident_priority,
+  status incident_status,
+  condition TEXT NOT NULL CHECK (condition IN ('idle', 'response_breach', 'resolution_breach')),
+  idle_minutes INTEGER CHECK (idle_minutes > 0),
+  escalate_to_role app_role NOT NULL DEFAULT 'supervisor',
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (condition <> 'idle' OR idle_minutes IS NOT NULL)
+);
+
+INSERT INTO public.escalation_rules (name, priority, status, condition, idle_minutes) VALUES
+  ('Critical incident left open', 'critical', 'open', 'idle', 15),
+  ('High incident left open', 'high', 'open', 'idle', 60),
+  ('Response SLA breached', NULL, NULL, 'response_breach', NULL),
+  ('Resolution SLA breached', NULL, NULL, 'resolution_breach', NULL);
+
+-- One escalation per rule per incident
+CREATE TABLE public.incident_escalations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id UUID NOT NULL REFERENCES public.incidents(id) ON DELETE CASCADE,
+  rule_id UUID NOT NULL REFERENCES public.escalation_rules(id) ON DELETE CASCADE,
+  escalated_to UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (incident_id, rule_id)
+);
+
+ALTER TABLE public.incidents
+  ADD COLUMN escalated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN escalated_to UUID REFERENCES auth.users(id),
+  ADD COLUMN escalation_level INTEGER NOT NULL DEFAULT 0;
+
+-- Escalations are written by the system, not by a user
+ALTER TABLE public.incident_updates ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.escalation_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.incident_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view escalation rules"
+  ON public.escalation_rules FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['security_officer', 'supervisor', 'admin']::app_role[]));
+
+CREATE POLICY "Admins can manage escalation rules"
+  ON public.escalation_rules FOR ALL
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]));
+
+CREATE POLICY "Staff can view incident escalations"
+  ON public.incident_escalations FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['security_officer', 'supervisor', 'admin']::app_role[]));
+
+CREATE TRIGGER update_escalation_rules_updated_at
+  BEFORE UPDATE ON public.escalation_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Escalating an incident is not activity on it: updated_at keeps the last real change, so
+-- lists do not show escalated incidents as freshly updated and later idle rules still fire
+DROP TRIGGER update_incidents_updated_at ON public.incidents;
+
+CREATE TRIGGER update_incidents_updated_at
+  BEFORE UPDATE ON public.incidents
+  FOR EACH ROW
+  WHEN (
+    (NEW.escalated_at, NEW.escalated_to, NEW.escalation_level)
+      IS NOT DISTINCT FROM (OLD.escalated_at, OLD.escalated_to, OLD.escalation_level)
+  )
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.run_escalations()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rule public.escalation_rules;
+  target RECORD;
+  escalation_target UUID;
+  escalation_target_name TEXT;
+  escalated INTEGER := 0;
+BEGIN
+  FOR rule IN SELECT * FROM public.escalation_rules WHERE active ORDER BY created_at LOOP
+    FOR target IN
+      SELECT i.id
+      FROM public.incidents i
+      WHERE i.status IN ('open', 'in_progress')
+        AND (rule.priority IS NULL OR i.priority = rule.priority)
+        AND (rule.status IS NULL OR i.status = rule.status)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.incident_escalations e
+          WHERE e.incident_id = i.id AND e.rule_id = rule.id
+        )
+        AND CASE rule.condition
+          -- System timeline entries (escalations) are not activity
+          WHEN 'idle' THEN greatest(
+            i.updated_at,
+            (
+              SELECT max(u.created_at) FROM public.incident_updates u
+              WHERE u.incident_id = i.id AND u.user_id IS NOT NULL
+            )
+          ) < now() - make_interval(mins => rule.idle_minutes)
+          WHEN 'response_breach' THEN i.acknowledged_at IS NULL AND i.response_due_at < now()
+          WHEN 'resolution_breach' THEN i.resolved_at IS NULL AND i.resolution_due_at < now()
+          ELSE false
+        END
+    LOOP
+      -- Pick the member of the target role with the fewest active escalations
+      SELECT p.id, p.full_name INTO escalation_target, escalation_target_name
+      FROM public.profiles p
+      WHERE p.role = rule.escalate_to_role
+      ORDER BY (
+        SELECT count(*) FROM public.incidents x
+        WHERE x.escalated_to = p.id AND x.status IN ('open', 'in_progress')
+      ), p.created_at
+      LIMIT 1;
+
+      UPDATE public.incidents
+      SET
+        escalated_at = now(),
+        escalation_level = escalation_level + 1,
+        escalated_to = coalesce(escalation_target, escalated_to)
+      WHERE id = target.id;
+
+      INSERT INTO public.incident_escalations (incident_id, rule_id, escalated_to)
+      VALUES (target.id, rule.id, escalation_target);
+
+      INSERT INTO public.incident_updates (incident_id, user_id, update_type, content)
+      VALUES (
+        target.id,
+        NULL,
+        'escalation',
+        format(
+          'Escalated to %s: %s',
+          coalesce(escalation_target_name, replace(rule.escalate_to_role::text, '_', ' ')),
+          rule.name
+        )
+      );
+
+      escalated := escalated + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN escalated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_escalations() FROM PUBLIC, anon, authenticated;
+
+CREATE INDEX idx_incidents_escalated_to ON public.incidents(escalated_to);
+CREATE INDEX idx_incident_escalations_incident ON public.incident_escalations(incident_id);
+
+-- Evaluate rules every minute (pg_cron ships with local and hosted Supabase)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('run-escalations', '* * * * *', 'SELECT public.run_escalations()');
@@ -0,0 +1,4 @@
+-- Indexes backing server-side filtering and sorting in the incident list
+CREATE INDEX idx_incidents_category ON public.incidents(category);
+CREATE INDEX idx_incidents_updated_at ON public.incidents(updated_at DESC);
+CREATE INDEX idx_incidents_priority_created_at ON public.incidents(priority DESC, created_at DESC);
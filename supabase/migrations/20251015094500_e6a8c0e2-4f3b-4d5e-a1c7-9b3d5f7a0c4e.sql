@@ -0,0 +1,28 @@
+-- Point user references at profiles so PostgREST can embed them in a single request.
+-- profiles.id already references auth.users, so integrity with auth is preserved.
+ALTER TABLE public.incidents
+  DROP CONSTRAINT incidents_reporter_id_fkey,
+  ADD CONSTRAINT incidents_reporter_id_fkey
+    FOREIGN KEY (reporter_id) REFERENCES public.profiles(id);
+
+ALTER TABLE public.incidents
+  DROP CONSTRAINT incidents_assigned_to_fkey,
+  ADD CONSTRAINT incidents_assigned_to_fkey
+    FOREIGN KEY (assigned_to) REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.incidents
+  DROP CONSTRAINT incidents_escalated_to_fkey,
+  ADD CONSTRAINT incidents_escalated_to_fkey
+    FOREIGN KEY (escalated_to) REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.incident_updates
+  DROP CONSTRAINT incident_updates_user_id_fkey,
+  ADD CONSTRAINT incident_updates_user_id_fkey
+    FOREIGN KEY (user_id) REFERENCES public.profiles(id);
+
+ALTER TABLE public.incident_escalations
+  DROP CONSTRAINT incident_escalations_escalated_to_fkey,
+  ADD CONSTRAINT incident_escalations_escalated_to_fkey
+    FOREIGN KEY (escalated_to) REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_incident_updates_user ON public.incident_updates(user_id);
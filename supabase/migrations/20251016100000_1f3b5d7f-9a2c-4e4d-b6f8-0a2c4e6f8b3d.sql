@@ -0,0 +1,142 @@
+-- Full-text search documents, one per incident, covering the incident and its timeline
+CREATE TABLE public.incident_search_documents (
+  incident_id UUID PRIMARY KEY REFERENCES public.incidents(id) ON DELETE CASCADE,
+  content TEXT NOT NULL DEFAULT '',
+  document TSVECTOR NOT NULL
+);
+
+CREATE INDEX idx_incident_search_documents_document
+  ON public.incident_search_documents USING GIN (document);
+
+ALTER TABLE public.incident_search_documents ENABLE ROW LEVEL SECURITY;
+
+-- Visible whenever the parent incident is visible to the caller
+CREATE POLICY "Users can view search documents of visible incidents"
+  ON public.incident_search_documents FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.incidents i WHERE i.id = incident_id)
+  );
+
+CREATE OR REPLACE FUNCTION public.refresh_incident_search_document(_incident_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.incident_search_documents (incident_id, content, document)
+  SELECT
+    i.id,
+    concat_ws(E'\n', i.description, u.content),
+    setweight(to_tsvector('english', i.title), 'A')
+      || setweight(to_tsvector('english', i.description), 'B')
+      || setweight(to_tsvector('english', concat_ws(' ', i.location, replace(i.category, '_', ' '))), 'C')
+      || setweight(to_tsvector('english', coalesce(u.content, '')), 'D')
+  FROM public.incidents i
+  LEFT JOIN LATERAL (
+    SELECT string_agg(content, E'\n' ORDER BY created_at) AS content
+    FROM public.incident_updates
+    WHERE incident_id = i.id
+  ) u ON true
+  WHERE i.id = _incident_id
+  ON CONFLICT (incident_id) DO UPDATE
+  SET content = EXCLUDED.content, document = EXCLUDED.document;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_incident_search_from_incident()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_incident_search_document(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_incident_search_from_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_incident_search_document(coalesce(NEW.incident_id, OLD.incident_id));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_incidents_search_document
+  AFTER INSERT OR UPDATE OF title, description, location, category ON public.incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_incident_search_from_incident();
+
+CREATE TRIGGER refresh_incident_updates_search_document
+  AFTER INSERT OR UPDATE OR DELETE ON public.incident_updates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_incident_search_from_update();
+
+SELECT public.refresh_incident_search_document(id) FROM public.incidents;
+
+-- Ranked search with highlighted title and snippet. Runs as the caller so incident RLS applies.
+-- Matches are wrapped in <mark></mark>; the client splits on these markers rather than rendering HTML.
+CREATE OR REPLACE FUNCTION public.search_incidents(
+  _query TEXT,
+  _status incident_status DEFAULT NULL,
+  _priority incident_priority DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _location TEXT DEFAULT NULL,
+  _assigned_to UUID DEFAULT NULL,
+  _unassigned BOOLEAN DEFAULT false,
+  _created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _created_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  incident_id UUID,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', _query) AS query
+  ),
+  matches AS (
+    SELECT i.id, i.title, i.created_at, d.content, ts_rank_cd(d.document, q.query) AS rank
+    FROM public.incidents i
+    JOIN public.incident_search_documents d ON d.incident_id = i.id
+    CROSS JOIN q
+    WHERE d.document @@ q.query
+      AND (_status IS NULL OR i.status = _status)
+      AND (_priority IS NULL OR i.priority = _priority)
+      AND (_category IS NULL OR i.category = _category)
+      AND (_location IS NULL OR i.location ILIKE '%' || _location || '%')
+      AND (_assigned_to IS NULL OR i.assigned_to = _assigned_to)
+      AND (NOT _unassigned OR i.assigned_to IS NULL)
+      AND (_created_from IS NULL OR i.created_at >= _created_from)
+      AND (_created_to IS NULL OR i.created_at <= _created_to)
+  )
+  SELECT
+    m.id,
+    m.rank,
+    ts_headline('english', m.title, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+    ts_headline(
+      'english',
+      m.content,
+      q.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=8, MaxWords=20, FragmentDelimiter=" … "'
+    ),
+    count(*) OVER ()
+  FROM matches m
+  CROSS JOIN q
+  ORDER BY m.rank DESC, m.created_at DESC
+  LIMIT _limit
+  OFFSET _offset
+$$;
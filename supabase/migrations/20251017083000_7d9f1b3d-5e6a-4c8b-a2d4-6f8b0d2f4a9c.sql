@@ -0,0 +1,32 @@
+-- Track who last changed an incident so clients can tell their own edits from others'
+ALTER TABLE public.incidents ADD COLUMN updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+-- Backfill without touching updated_at, which keeps the real last activity
+ALTER TABLE public.incidents DISABLE TRIGGER update_incidents_updated_at;
+
+UPDATE public.incidents SET updated_by = reporter_id;
+
+ALTER TABLE public.incidents ENABLE TRIGGER update_incidents_updated_at;
+
+CREATE OR REPLACE FUNCTION public.set_incident_updated_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- NULL for system changes such as escalations
+  NEW.updated_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_incidents_updated_by
+  BEFORE INSERT OR UPDATE ON public.incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_incident_updated_by();
+
+-- Broadcast incident and timeline changes over Supabase Realtime.
+-- Full replica identity lets clients compare old and new rows on UPDATE and DELETE.
+ALTER TABLE public.incidents REPLICA IDENTITY FULL;
+ALTER TABLE public.incident_updates REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.incidents, public.incident_updates;
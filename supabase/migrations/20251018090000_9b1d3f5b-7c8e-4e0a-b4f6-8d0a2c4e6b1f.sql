@@ -0,0 +1,38 @@
+-- Evidence is referenced by storage object path; the bucket is private, so URLs are signed on view
+ALTER TABLE public.incidents RENAME COLUMN evidence_urls TO evidence_paths;
+
+-- Rewrite stored public/signed URLs into object paths within the incident-evidence bucket.
+-- This is not an edit, so updated_at and updated_by keep their values.
+ALTER TABLE public.incidents DISABLE TRIGGER update_incidents_updated_at;
+ALTER TABLE public.incidents DISABLE TRIGGER set_incidents_updated_by;
+
+UPDATE public.incidents
+SET evidence_paths = ARRAY(
+  SELECT regexp_replace(
+    split_part(url, '?', 1),
+    '^.*/storage/v1/object/(public|sign|authenticated)/incident-evidence/',
+    ''
+  )
+  FROM unnest(evidence_paths) AS url
+)
+WHERE evidence_paths IS NOT NULL;
+
+ALTER TABLE public.incidents ENABLE TRIGGER update_incidents_updated_at;
+ALTER TABLE public.incidents ENABLE TRIGGER set_incidents_updated_by;
+
+CREATE INDEX idx_incidents_evidence_paths ON public.incidents USING GIN (evidence_paths);
+
+-- Evidence is readable by anyone who can see an incident referencing it (incident RLS applies)
+DROP POLICY "Staff can view incident evidence" ON storage.objects;
+DROP POLICY "Uploaders can view own incident evidence" ON storage.objects;
+
+CREATE POLICY "Users can view evidence of visible incidents"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'incident-evidence'
+    AND EXISTS (
+      SELECT 1 FROM public.incidents i
+      WHERE storage.objects.name = ANY(i.evidence_paths)
+    )
+  );
@@ -0,0 +1,118 @@
+-- Evidence files with integrity metadata, replacing incidents.evidence_paths
+CREATE TABLE public.evidence_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id UUID NOT NULL REFERENCES public.incidents(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  -- Hex SHA-256 of the file as uploaded; NULL only for files migrated from before hashing existed
+  sha256 TEXT CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  original_filename TEXT NOT NULL,
+  size_bytes BIGINT,
+  mime_type TEXT,
+  uploaded_by UUID REFERENCES public.profiles(id),
+  captured_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Append-only log of everything that happens to an evidence file
+CREATE TABLE public.custody_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  evidence_item_id UUID NOT NULL REFERENCES public.evidence_items(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('upload', 'view', 'download', 'export', 'verify')),
+  actor_id UUID REFERENCES public.profiles(id),
+  details JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.evidence_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.custody_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view evidence items of visible incidents"
+  ON public.evidence_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.incidents i WHERE i.id = incident_id)
+  );
+
+CREATE POLICY "Users can add evidence to visible incidents"
+  ON public.evidence_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = uploaded_by
+    -- Only objects from the uploader's own folder, or evidence would grant read access to others' files
+    AND split_part(storage_path, '/', 1) = auth.uid()::text
+    AND EXISTS (SELECT 1 FROM public.incidents i WHERE i.id = incident_id)
+  );
+
+CREATE POLICY "Users can view custody events of visible evidence"
+  ON public.custody_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.evidence_items e WHERE e.id = evidence_item_id)
+  );
+
+-- Uploads are logged by trigger; clients record their own access events
+CREATE POLICY "Users can log access to visible evidence"
+  ON public.custody_events FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = actor_id
+    AND event_type <> 'upload'
+    AND EXISTS (SELECT 1 FROM public.evidence_items e WHERE e.id = evidence_item_id)
+  );
+
+CREATE OR REPLACE FUNCTION public.log_evidence_upload()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.custody_events (evidence_item_id, event_type, actor_id, details)
+  VALUES (
+    NEW.id,
+    'upload',
+    NEW.uploaded_by,
+    jsonb_build_object('sha256', NEW.sha256, 'size_bytes', NEW.size_bytes)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_evidence_items_upload
+  AFTER INSERT ON public.evidence_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_evidence_upload();
+
+-- Carry existing evidence over; uploader is taken from the storage object owner
+INSERT INTO public.evidence_items (incident_id, storage_path, original_filename, size_bytes, mime_type, uploaded_by, created_at)
+SELECT
+  i.id,
+  p.path,
+  regexp_replace(p.path, '^.*/', ''),
+  (o.metadata ->> 'size')::BIGINT,
+  o.metadata ->> 'mimetype',
+  coalesce(o.owner, i.reporter_id),
+  coalesce(o.created_at, i.created_at)
+FROM public.incidents i
+CROSS JOIN LATERAL unnest(i.evidence_paths) AS p(path)
+LEFT JOIN storage.objects o ON o.bucket_id = 'incident-evidence' AND o.name = p.path
+WHERE i.evidence_paths IS NOT NULL;
+
+-- Storage reads now follow evidence_items visibility
+DROP POLICY "Users can view evidence of visible incidents" ON storage.objects;
+
+CREATE POLICY "Users can view evidence of visible incidents"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'incident-evidence'
+    AND EXISTS (
+      SELECT 1 FROM public.evidence_items e
+      WHERE e.storage_path = storage.objects.name
+    )
+  );
+
+ALTER TABLE public.incidents DROP COLUMN evidence_paths;
+
+CREATE INDEX idx_evidence_items_incident ON public.evidence_items(incident_id);
+CREATE INDEX idx_custody_events_evidence_item ON public.custody_events(evidence_item_id, created_at);
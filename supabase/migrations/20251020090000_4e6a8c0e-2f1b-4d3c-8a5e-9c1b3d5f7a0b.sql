@@ -0,0 +1,39 @@
+-- Evidence uploads are limited to known media and document types. The bucket limit is the
+-- video ceiling; everything else is held to 10MB by the checks below.
+UPDATE storage.buckets
+SET
+  file_size_limit = 200 * 1024 * 1024,
+  allowed_mime_types = ARRAY[
+    'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/heic',
+    'video/mp4', 'video/webm', 'video/quicktime',
+    'audio/mpeg', 'audio/mp4', 'audio/wav', 'audio/webm', 'audio/ogg',
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'text/plain'
+  ]
+WHERE id = 'incident-evidence';
+
+-- Existing rows predate enforcement, so the constraint only applies to new evidence
+ALTER TABLE public.evidence_items
+  ADD CONSTRAINT evidence_items_size_limit
+  CHECK (mime_type LIKE 'video/%' OR size_bytes <= 10 * 1024 * 1024)
+  NOT VALID;
+
+-- The same limits on the stored object itself, so they hold for uploads that skip the app.
+-- Storage checks the policy once before the upload, when no metadata exists yet, and again
+-- when it records the object with its size and content type.
+DROP POLICY "Users can upload evidence to own folder" ON storage.objects;
+
+CREATE POLICY "Users can upload evidence to own folder"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'incident-evidence'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+    AND (
+      metadata IS NULL
+      OR metadata->>'mimetype' LIKE 'video/%'
+      OR (metadata->>'size')::BIGINT <= 10 * 1024 * 1024
+    )
+  );
@@ -0,0 +1,104 @@
+-- Evidence can be attached to a timeline update and removed with a recorded reason
+ALTER TABLE public.evidence_items
+  ADD COLUMN incident_update_id UUID REFERENCES public.incident_updates(id) ON DELETE SET NULL,
+  ADD COLUMN removed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN removed_by UUID REFERENCES public.profiles(id),
+  ADD COLUMN removal_reason TEXT;
+
+ALTER TABLE public.custody_events DROP CONSTRAINT custody_events_event_type_check;
+ALTER TABLE public.custody_events
+  ADD CONSTRAINT custody_events_event_type_check
+  CHECK (event_type IN ('upload', 'view', 'download', 'export', 'verify', 'remove'));
+
+DROP POLICY "Users can log access to visible evidence" ON public.custody_events;
+
+CREATE POLICY "Users can log access to visible evidence"
+  ON public.custody_events FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = actor_id
+    AND event_type NOT IN ('upload', 'remove')
+    AND EXISTS (SELECT 1 FROM public.evidence_items e WHERE e.id = evidence_item_id)
+  );
+
+-- Files added outside a comment get their own timeline entry
+CREATE OR REPLACE FUNCTION public.log_evidence_upload()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.custody_events (evidence_item_id, event_type, actor_id, details)
+  VALUES (
+    NEW.id,
+    'upload',
+    NEW.uploaded_by,
+    jsonb_build_object('sha256', NEW.sha256, 'size_bytes', NEW.size_bytes)
+  );
+
+  IF NEW.incident_update_id IS NULL THEN
+    INSERT INTO public.incident_updates (incident_id, user_id, update_type, content)
+    VALUES (NEW.incident_id, NEW.uploaded_by, 'evidence', format('Added evidence: %s', NEW.original_filename));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Marks evidence as removed and records why. The caller deletes the stored file afterwards.
+CREATE OR REPLACE FUNCTION public.remove_evidence_item(_evidence_item_id UUID, _reason TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item public.evidence_items;
+BEGIN
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to remove evidence';
+  END IF;
+
+  SELECT * INTO item FROM public.evidence_items WHERE id = _evidence_item_id FOR UPDATE;
+
+  IF NOT FOUND OR item.removed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Evidence not found';
+  END IF;
+
+  IF item.uploaded_by IS DISTINCT FROM auth.uid()
+    AND NOT public.has_any_role(auth.uid(), ARRAY['supervisor', 'admin']::app_role[]) THEN
+    RAISE EXCEPTION 'Only the uploader or a supervisor can remove this evidence';
+  END IF;
+
+  UPDATE public.evidence_items
+  SET removed_at = now(), removed_by = auth.uid(), removal_reason = _reason
+  WHERE id = item.id;
+
+  INSERT INTO public.custody_events (evidence_item_id, event_type, actor_id, details)
+  VALUES (item.id, 'remove', auth.uid(), jsonb_build_object('reason', _reason, 'sha256', item.sha256));
+
+  INSERT INTO public.incident_updates (incident_id, user_id, update_type, content)
+  VALUES (
+    item.incident_id,
+    auth.uid(),
+    'evidence',
+    format('Removed evidence %s: %s', item.original_filename, _reason)
+  );
+
+  RETURN item.storage_path;
+END;
+$$;
+
+CREATE POLICY "Users can delete evidence they removed"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'incident-evidence'
+    AND EXISTS (
+      SELECT 1 FROM public.evidence_items e
+      WHERE e.storage_path = storage.objects.name AND e.removed_by = auth.uid()
+    )
+  );
+
+CREATE INDEX idx_evidence_items_incident_update ON public.evidence_items(incident_update_id);
@@ -0,0 +1,38 @@
+-- Photo metadata read client-side from EXIF. When EXIF is stripped before storage,
+-- sha256 stays the hash of the original file and stored_sha256 is the hash of the stored copy.
+ALTER TABLE public.evidence_items
+  ADD COLUMN stored_sha256 TEXT CHECK (stored_sha256 ~ '^[0-9a-f]{64}$'),
+  ADD COLUMN exif_stripped BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN gps_latitude DOUBLE PRECISION CHECK (gps_latitude BETWEEN -90 AND 90),
+  ADD COLUMN gps_longitude DOUBLE PRECISION CHECK (gps_longitude BETWEEN -180 AND 180),
+  ADD COLUMN camera_make TEXT,
+  ADD COLUMN camera_model TEXT;
+
+CREATE OR REPLACE FUNCTION public.log_evidence_upload()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.custody_events (evidence_item_id, event_type, actor_id, details)
+  VALUES (
+    NEW.id,
+    'upload',
+    NEW.uploaded_by,
+    jsonb_build_object(
+      'sha256', NEW.sha256,
+      'stored_sha256', NEW.stored_sha256,
+      'exif_stripped', NEW.exif_stripped,
+      'size_bytes', NEW.size_bytes
+    )
+  );
+
+  IF NEW.incident_update_id IS NULL THEN
+    INSERT INTO public.incident_updates (incident_id, user_id, update_type, content)
+    VALUES (NEW.incident_id, NEW.uploaded_by, 'evidence', format('Added evidence: %s', NEW.original_filename));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
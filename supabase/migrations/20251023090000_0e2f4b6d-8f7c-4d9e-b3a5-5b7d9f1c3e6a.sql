@@ -0,0 +1,105 @@
+-- Redacted copies are stored as evidence items derived from the original
+ALTER TABLE public.evidence_items
+  ADD COLUMN derived_from UUID REFERENCES public.evidence_items(id),
+  ADD COLUMN redactions JSONB;
+
+ALTER TABLE public.custody_events DROP CONSTRAINT custody_events_event_type_check;
+ALTER TABLE public.custody_events
+  ADD CONSTRAINT custody_events_event_type_check
+  CHECK (event_type IN ('upload', 'view', 'download', 'export', 'verify', 'remove', 'redact', 'share'));
+
+-- Anyone who can see evidence logs viewing and downloading it. Shares, exports and integrity
+-- checks carry details that others rely on, so only staff may record them.
+DROP POLICY "Users can log access to visible evidence" ON public.custody_events;
+
+CREATE POLICY "Users can log access to visible evidence"
+  ON public.custody_events FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = actor_id
+    AND (
+      event_type IN ('view', 'download')
+      OR (
+        event_type IN ('share', 'export', 'verify')
+        AND public.has_any_role(auth.uid(), ARRAY['security_officer', 'supervisor', 'admin']::app_role[])
+      )
+    )
+    AND EXISTS (SELECT 1 FROM public.evidence_items e WHERE e.id = evidence_item_id)
+  );
+
+-- Only staff may create redacted copies
+DROP POLICY "Users can add evidence to visible incidents" ON public.evidence_items;
+
+CREATE POLICY "Users can add evidence to visible incidents"
+  ON public.evidence_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = uploaded_by
+    AND split_part(storage_path, '/', 1) = auth.uid()::text
+    AND EXISTS (SELECT 1 FROM public.incidents i WHERE i.id = incident_id)
+    AND (
+      derived_from IS NULL
+      OR public.has_any_role(auth.uid(), ARRAY['security_officer', 'supervisor', 'admin']::app_role[])
+    )
+  );
+
+-- A redacted copy is also recorded on the original's custody trail
+CREATE OR REPLACE FUNCTION public.log_evidence_upload()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original_filename TEXT;
+BEGIN
+  INSERT INTO public.custody_events (evidence_item_id, event_type, actor_id, details)
+  VALUES (
+    NEW.id,
+    'upload',
+    NEW.uploaded_by,
+    jsonb_build_object(
+      'sha256', NEW.sha256,
+      'stored_sha256', NEW.stored_sha256,
+      'exif_stripped', NEW.exif_stripped,
+      'size_bytes', NEW.size_bytes,
+      'derived_from', NEW.derived_from
+    )
+  );
+
+  IF NEW.derived_from IS NOT NULL THEN
+    SELECT e.original_filename INTO original_filename
+    FROM public.evidence_items e
+    WHERE e.id = NEW.derived_from;
+
+    INSERT INTO public.custody_events (evidence_item_id, event_type, actor_id, details)
+    VALUES (
+      NEW.derived_from,
+      'redact',
+      NEW.uploaded_by,
+      jsonb_build_object(
+        'derived_item_id', NEW.id,
+        'sha256', NEW.sha256,
+        'regions', jsonb_array_length(coalesce(NEW.redactions, '[]'::jsonb))
+      )
+    );
+  END IF;
+
+  IF NEW.incident_update_id IS NULL THEN
+    INSERT INTO public.incident_updates (incident_id, user_id, update_type, content)
+    VALUES (
+      NEW.incident_id,
+      NEW.uploaded_by,
+      'evidence',
+      CASE
+        WHEN NEW.derived_from IS NOT NULL THEN format('Added redacted copy of %s', original_filename)
+        ELSE format('Added evidence: %s', NEW.original_filename)
+      END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE INDEX idx_evidence_items_derived_from ON public.evidence_items(derived_from);
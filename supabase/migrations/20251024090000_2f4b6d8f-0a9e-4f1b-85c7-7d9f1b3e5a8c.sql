@@ -0,0 +1,93 @@
+-- Row-level audit trail written by triggers. No client can insert, change or delete entries.
+-- actor_id and incident_id are deliberately not foreign keys so entries outlive what they describe.
+CREATE TABLE public.audit_log (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  actor_id UUID,
+  table_name TEXT NOT NULL,
+  row_id UUID NOT NULL,
+  incident_id UUID,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  -- Full rows for INSERT and DELETE; only the changed columns for UPDATE
+  old_values JSONB,
+  new_values JSONB
+);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the audit log"
+  ON public.audit_log FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]));
+
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  row_data JSONB := coalesce(new_row, old_row);
+  changed_old JSONB;
+  changed_new JSONB;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- updated_at moves on every write, so it is not recorded as a change on its own
+    SELECT jsonb_object_agg(n.key, o.value), jsonb_object_agg(n.key, n.value)
+    INTO changed_old, changed_new
+    FROM jsonb_each(new_row) n
+    JOIN jsonb_each(old_row) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value
+      AND n.key <> 'updated_at';
+
+    IF changed_new IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    old_row := changed_old;
+    new_row := changed_new;
+  END IF;
+
+  INSERT INTO public.audit_log (actor_id, table_name, row_id, incident_id, action, old_values, new_values)
+  VALUES (
+    auth.uid(),
+    TG_TABLE_NAME,
+    (row_data ->> 'id')::UUID,
+    CASE TG_TABLE_NAME
+      WHEN 'incidents' THEN (row_data ->> 'id')::UUID
+      ELSE (row_data ->> 'incident_id')::UUID
+    END,
+    TG_OP,
+    old_row,
+    new_row
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_incidents
+  AFTER INSERT OR UPDATE OR DELETE ON public.incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_incident_updates
+  AFTER INSERT OR UPDATE OR DELETE ON public.incident_updates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_profiles
+  AFTER INSERT OR UPDATE OR DELETE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_evidence_items
+  AFTER INSERT OR UPDATE OR DELETE ON public.evidence_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+CREATE INDEX idx_audit_log_occurred_at ON public.audit_log(occurred_at DESC);
+CREATE INDEX idx_audit_log_incident ON public.audit_log(incident_id, occurred_at DESC);
+CREATE INDEX idx_audit_log_actor ON public.audit_log(actor_id, occurred_at DESC);
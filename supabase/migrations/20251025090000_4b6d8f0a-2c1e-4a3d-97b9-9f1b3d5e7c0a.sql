@@ -0,0 +1,148 @@
+-- Tamper-evident timeline: every update is chained to the previous one for its incident.
+--   content_hash = sha256(content)
+--   entry_hash   = sha256(sequence|incident_id|user_id|update_type|created_at ms|content_hash|previous_hash)
+-- created_at is truncated to milliseconds so clients can recompute the hash exactly.
+-- Keep in sync with src/lib/timeline-integrity.ts.
+ALTER TABLE public.incident_updates
+  ADD COLUMN sequence INTEGER,
+  ADD COLUMN content_hash TEXT,
+  ADD COLUMN previous_hash TEXT,
+  ADD COLUMN entry_hash TEXT;
+
+CREATE OR REPLACE FUNCTION public.incident_update_entry_hash(
+  _sequence INTEGER,
+  _incident_id UUID,
+  _user_id UUID,
+  _update_type TEXT,
+  _created_at TIMESTAMP WITH TIME ZONE,
+  _content_hash TEXT,
+  _previous_hash TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to(concat_ws('|',
+    _sequence,
+    _incident_id,
+    coalesce(_user_id::text, ''),
+    _update_type,
+    (extract(epoch FROM _created_at) * 1000)::BIGINT,
+    _content_hash,
+    coalesce(_previous_hash, '')
+  ), 'UTF8')), 'hex')
+$$;
+
+CREATE OR REPLACE FUNCTION public.chain_incident_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous_sequence INTEGER;
+  previous_entry_hash TEXT;
+BEGIN
+  -- Serialise appends per incident so two writers cannot claim the same link
+  PERFORM pg_advisory_xact_lock(hashtextextended(NEW.incident_id::text, 0));
+
+  SELECT u.sequence, u.entry_hash INTO previous_sequence, previous_entry_hash
+  FROM public.incident_updates u
+  WHERE u.incident_id = NEW.incident_id
+  ORDER BY u.sequence DESC
+  LIMIT 1;
+
+  NEW.created_at := date_trunc('milliseconds', now());
+  NEW.sequence := coalesce(previous_sequence, 0) + 1;
+  NEW.previous_hash := previous_entry_hash;
+  NEW.content_hash := encode(sha256(convert_to(NEW.content, 'UTF8')), 'hex');
+  NEW.entry_hash := public.incident_update_entry_hash(
+    NEW.sequence, NEW.incident_id, NEW.user_id, NEW.update_type,
+    NEW.created_at, NEW.content_hash, NEW.previous_hash
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Backfill existing timelines in their current order. Adding hashes changes neither the
+-- content nor the search documents, so the audit and search triggers are skipped.
+ALTER TABLE public.incident_updates DISABLE TRIGGER audit_incident_updates;
+ALTER TABLE public.incident_updates DISABLE TRIGGER refresh_incident_updates_search_document;
+
+DO $$
+DECLARE
+  entry RECORD;
+  last_hash TEXT;
+  current_incident UUID;
+  entry_sequence INTEGER;
+  entry_created_at TIMESTAMP WITH TIME ZONE;
+  entry_content_hash TEXT;
+BEGIN
+  FOR entry IN
+    SELECT * FROM public.incident_updates ORDER BY incident_id, created_at, id
+  LOOP
+    IF current_incident IS DISTINCT FROM entry.incident_id THEN
+      current_incident := entry.incident_id;
+      last_hash := NULL;
+      entry_sequence := 0;
+    END IF;
+
+    entry_sequence := entry_sequence + 1;
+    entry_created_at := date_trunc('milliseconds', entry.created_at);
+    entry_content_hash := encode(sha256(convert_to(entry.content, 'UTF8')), 'hex');
+
+    UPDATE public.incident_updates
+    SET
+      created_at = entry_created_at,
+      sequence = entry_sequence,
+      content_hash = entry_content_hash,
+      previous_hash = last_hash,
+      entry_hash = public.incident_update_entry_hash(
+        entry_sequence, entry.incident_id, entry.user_id, entry.update_type,
+        entry_created_at, entry_content_hash, last_hash
+      )
+    WHERE id = entry.id
+    RETURNING entry_hash INTO last_hash;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.incident_updates ENABLE TRIGGER audit_incident_updates;
+ALTER TABLE public.incident_updates ENABLE TRIGGER refresh_incident_updates_search_document;
+
+ALTER TABLE public.incident_updates
+  ALTER COLUMN sequence SET NOT NULL,
+  ALTER COLUMN content_hash SET NOT NULL,
+  ALTER COLUMN entry_hash SET NOT NULL,
+  ADD CONSTRAINT incident_updates_incident_sequence_key UNIQUE (incident_id, sequence);
+
+CREATE TRIGGER chain_incident_updates
+  BEFORE INSERT ON public.incident_updates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.chain_incident_update();
+
+-- The timeline is append-only. RLS has no UPDATE or DELETE policies for incident_updates,
+-- and the privileges are revoked outright so a future permissive policy cannot reopen them.
+REVOKE UPDATE, DELETE ON public.incident_updates FROM anon, authenticated;
+
+-- Privileged roles bypass RLS, so rewrites are also refused at the trigger level.
+-- Deleting the parent incident still cascades.
+CREATE OR REPLACE FUNCTION public.prevent_incident_update_rewrite()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.incidents WHERE id = OLD.incident_id) THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'Incident timeline entries cannot be changed or deleted';
+END;
+$$;
+
+CREATE TRIGGER prevent_incident_updates_rewrite
+  BEFORE UPDATE OR DELETE ON public.incident_updates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_incident_update_rewrite();
@@ -0,0 +1,203 @@
+-- Managed incident categories. incidents.category keeps holding the slug so existing
+-- filters, SLA policies and search keep working; a foreign key now guarantees it is valid.
+CREATE TABLE public.categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(_[a-z0-9]+)*$'),
+  name TEXT NOT NULL,
+  -- One level of nesting: subcategories point at a top-level category
+  parent_id UUID REFERENCES public.categories(id) ON DELETE RESTRICT,
+  default_priority incident_priority NOT NULL DEFAULT 'medium',
+  -- lucide icon name, resolved against a fixed set in the client
+  icon TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (parent_id IS DISTINCT FROM id)
+);
+
+CREATE INDEX idx_categories_parent ON public.categories(parent_id);
+
+INSERT INTO public.categories (slug, name, default_priority, icon, sort_order) VALUES
+  ('theft', 'Theft', 'medium', 'package', 10),
+  ('unauthorized_access', 'Unauthorized Access', 'high', 'key-round', 20),
+  ('fire', 'Fire Alarm', 'critical', 'flame', 30),
+  ('medical', 'Medical Emergency', 'critical', 'heart-pulse', 40),
+  ('vandalism', 'Vandalism', 'medium', 'hammer', 50),
+  ('suspicious_activity', 'Suspicious Activity', 'medium', 'eye', 60),
+  ('other', 'Other', 'low', 'circle-help', 100);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view categories"
+  ON public.categories FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- No delete policy: incidents reference categories, so admins deactivate them instead
+CREATE POLICY "Admins can create categories"
+  ON public.categories FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]));
+
+CREATE POLICY "Admins can update categories"
+  ON public.categories FOR UPDATE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]));
+
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Subcategories cannot have subcategories of their own
+CREATE OR REPLACE FUNCTION public.check_category_depth()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    IF EXISTS (SELECT 1 FROM public.categories WHERE id = NEW.parent_id AND parent_id IS NOT NULL) THEN
+      RAISE EXCEPTION 'Subcategories can only be added to top-level categories';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.categories WHERE parent_id = NEW.id) THEN
+      RAISE EXCEPTION 'A category with subcategories cannot become a subcategory';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_category_depth
+  BEFORE INSERT OR UPDATE OF parent_id ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_category_depth();
+
+CREATE TRIGGER audit_categories
+  AFTER INSERT OR UPDATE OR DELETE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+-- Map existing free-text values onto slugs: first by display name ("Fire Alarm"),
+-- then by normalised spelling ("Suspicious activity", "theft "). Anything left becomes
+-- 'other' and keeps its original text in legacy_category. updated_at and updated_by are left
+-- alone so they keep recording the real last edit.
+ALTER TABLE public.incidents ADD COLUMN legacy_category TEXT;
+
+ALTER TABLE public.incidents DISABLE TRIGGER update_incidents_updated_at;
+ALTER TABLE public.incidents DISABLE TRIGGER set_incidents_updated_by;
+
+UPDATE public.incidents i
+SET category = c.slug
+FROM public.categories c
+WHERE lower(trim(i.category)) = lower(c.name)
+  AND i.category <> c.slug;
+
+UPDATE public.incidents i
+SET category = c.slug
+FROM public.categories c
+WHERE trim(BOTH '_' FROM regexp_replace(lower(i.category), '[^a-z0-9]+', '_', 'g')) = c.slug
+  AND i.category <> c.slug;
+
+UPDATE public.incidents
+SET category = 'other', legacy_category = category
+WHERE category NOT IN (SELECT slug FROM public.categories);
+
+ALTER TABLE public.incidents ENABLE TRIGGER update_incidents_updated_at;
+ALTER TABLE public.incidents ENABLE TRIGGER set_incidents_updated_by;
+
+ALTER TABLE public.incidents
+  ADD CONSTRAINT incidents_category_fkey
+  FOREIGN KEY (category) REFERENCES public.categories(slug) ON UPDATE CASCADE;
+
+-- Reporters still cannot choose a priority, but now get the category default instead of 'medium'
+CREATE OR REPLACE FUNCTION public.enforce_reporter_incident_defaults()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_user_role(auth.uid()) = 'reporter' THEN
+    NEW.priority := coalesce(
+      (SELECT default_priority FROM public.categories WHERE slug = NEW.category),
+      'medium'
+    );
+    NEW.status := 'open';
+    NEW.assigned_to := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Filtering on a top-level category includes its subcategories
+CREATE OR REPLACE FUNCTION public.search_incidents(
+  _query TEXT,
+  _status incident_status DEFAULT NULL,
+  _priority incident_priority DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _location TEXT DEFAULT NULL,
+  _assigned_to UUID DEFAULT NULL,
+  _unassigned BOOLEAN DEFAULT false,
+  _created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _created_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  incident_id UUID,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', _query) AS query
+  ),
+  matches AS (
+    SELECT i.id, i.title, i.created_at, d.content, ts_rank_cd(d.document, q.query) AS rank
+    FROM public.incidents i
+    JOIN public.incident_search_documents d ON d.incident_id = i.id
+    CROSS JOIN q
+    WHERE d.document @@ q.query
+      AND (_status IS NULL OR i.status = _status)
+      AND (_priority IS NULL OR i.priority = _priority)
+      AND (
+        _category IS NULL
+        OR i.category = _category
+        OR i.category IN (
+          SELECT c.slug
+          FROM public.categories c
+          JOIN public.categories p ON p.id = c.parent_id
+          WHERE p.slug = _category
+        )
+      )
+      AND (_location IS NULL OR i.location ILIKE '%' || _location || '%')
+      AND (_assigned_to IS NULL OR i.assigned_to = _assigned_to)
+      AND (NOT _unassigned OR i.assigned_to IS NULL)
+      AND (_created_from IS NULL OR i.created_at >= _created_from)
+      AND (_created_to IS NULL OR i.created_at <= _created_to)
+  )
+  SELECT
+    m.id,
+    m.rank,
+    ts_headline('english', m.title, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+    ts_headline(
+      'english',
+      m.content,
+      q.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=8, MaxWords=20, FragmentDelimiter=" … "'
+    ),
+    count(*) OVER ()
+  FROM matches m
+  CROSS JOIN q
+  ORDER BY m.rank DESC, m.created_at DESC
+  LIMIT _limit
+  OFFSET _offset
+$$;
@@ -0,0 +1,213 @@
+-- Location registry: site → building → floor → zone.
+-- incidents.location stays as the readable path so search and the location: filter keep
+-- working; for registered locations it is derived from incidents.location_id.
+CREATE TYPE public.location_level AS ENUM ('site', 'building', 'floor', 'zone');
+
+CREATE TABLE public.locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id UUID REFERENCES public.locations(id) ON DELETE RESTRICT,
+  level location_level NOT NULL,
+  name TEXT NOT NULL CHECK (trim(name) <> ''),
+  -- Other spellings seen in free-text reports ("Bldg A"), used when mapping them onto the registry
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  -- Optional position, used to suggest a location from photo GPS data
+  latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((latitude IS NULL) = (longitude IS NULL))
+);
+
+CREATE UNIQUE INDEX idx_locations_parent_name
+  ON public.locations(coalesce(parent_id, '00000000-0000-0000-0000-000000000000'::UUID), lower(name));
+CREATE INDEX idx_locations_parent ON public.locations(parent_id);
+
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view locations"
+  ON public.locations FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- No delete policy: incidents reference locations, so admins deactivate them instead
+CREATE POLICY "Admins can create locations"
+  ON public.locations FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]));
+
+CREATE POLICY "Admins can update locations"
+  ON public.locations FOR UPDATE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]));
+
+CREATE TRIGGER update_locations_updated_at
+  BEFORE UPDATE ON public.locations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_locations
+  AFTER INSERT OR UPDATE OR DELETE ON public.locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+-- Sites are roots; every other level sits directly below the level before it.
+-- Because levels strictly increase down the tree, cycles are impossible.
+CREATE OR REPLACE FUNCTION public.check_location_hierarchy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  levels location_level[] := enum_range(NULL::location_level);
+  parent_level location_level;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    IF NEW.level <> 'site' THEN
+      RAISE EXCEPTION 'Only sites can be top-level locations';
+    END IF;
+  ELSE
+    SELECT level INTO parent_level FROM public.locations WHERE id = NEW.parent_id;
+    IF array_position(levels, NEW.level) <> array_position(levels, parent_level) + 1 THEN
+      RAISE EXCEPTION 'A % cannot be placed inside a %', NEW.level, parent_level;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.level <> OLD.level
+    AND EXISTS (SELECT 1 FROM public.locations WHERE parent_id = NEW.id) THEN
+    RAISE EXCEPTION 'Cannot change the level of a location that has children';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_location_hierarchy
+  BEFORE INSERT OR UPDATE OF parent_id, level ON public.locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_location_hierarchy();
+
+-- Full path such as "HQ › Building A › Floor 2 › Lobby"
+CREATE OR REPLACE FUNCTION public.location_path(_location_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE ancestors AS (
+    SELECT id, parent_id, level, name FROM public.locations WHERE id = _location_id
+    UNION ALL
+    SELECT l.id, l.parent_id, l.level, l.name
+    FROM public.locations l
+    JOIN ancestors a ON a.parent_id = l.id
+  )
+  SELECT string_agg(name, ' › ' ORDER BY level) FROM ancestors
+$$;
+
+ALTER TABLE public.incidents
+  ADD COLUMN location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL,
+  -- Free text the incident was reported with, kept when mapping replaces it with a registry
+  -- path, since it often holds detail such as a room number
+  ADD COLUMN reported_location TEXT;
+
+CREATE INDEX idx_incidents_location_id ON public.incidents(location_id);
+
+CREATE OR REPLACE FUNCTION public.sync_incident_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.location_id IS NOT NULL THEN
+    NEW.location := public.location_path(NEW.location_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_incident_location
+  BEFORE INSERT OR UPDATE OF location_id ON public.incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_incident_location();
+
+-- Renaming or moving a location rewrites the stored path on every incident below it
+CREATE OR REPLACE FUNCTION public.refresh_location_paths()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH RECURSIVE descendants AS (
+    SELECT NEW.id AS id
+    UNION ALL
+    SELECT l.id FROM public.locations l JOIN descendants d ON l.parent_id = d.id
+  )
+  UPDATE public.incidents
+  SET location = public.location_path(location_id)
+  WHERE location_id IN (SELECT id FROM descendants);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_location_paths
+  AFTER UPDATE OF name, parent_id ON public.locations
+  FOR EACH ROW
+  WHEN (NEW.name IS DISTINCT FROM OLD.name OR NEW.parent_id IS DISTINCT FROM OLD.parent_id)
+  EXECUTE FUNCTION public.refresh_location_paths();
+
+-- Backfill support: free-text locations that are not linked to the registry yet
+CREATE OR REPLACE FUNCTION public.unmapped_incident_locations()
+RETURNS TABLE (location TEXT, incident_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT trim(i.location), count(*)
+  FROM public.incidents i
+  WHERE i.location_id IS NULL
+  GROUP BY trim(i.location)
+  ORDER BY count(*) DESC, trim(i.location)
+$$;
+
+-- Links every unmapped incident whose text matches _location (ignoring case and surrounding
+-- spaces) to a registry entry, and remembers the spelling as an alias. Returns the number linked.
+CREATE OR REPLACE FUNCTION public.map_incident_location(_location TEXT, _location_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  mapped INTEGER;
+BEGIN
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]) THEN
+    RAISE EXCEPTION 'Only admins can map incident locations';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.locations WHERE id = _location_id) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  -- location is set explicitly so the search document trigger sees the column change
+  UPDATE public.incidents
+  SET
+    location_id = _location_id,
+    location = public.location_path(_location_id),
+    reported_location = location
+  WHERE location_id IS NULL
+    AND lower(trim(location)) = lower(trim(_location));
+
+  GET DIAGNOSTICS mapped = ROW_COUNT;
+
+  UPDATE public.locations
+  SET aliases = array_append(aliases, trim(_location))
+  WHERE id = _location_id
+    AND lower(trim(_location)) <> lower(name)
+    AND NOT lower(trim(_location)) = ANY (SELECT lower(a) FROM unnest(aliases) a);
+
+  RETURN mapped;
+END;
+$$;
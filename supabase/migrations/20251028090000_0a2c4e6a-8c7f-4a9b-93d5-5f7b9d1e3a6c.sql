@@ -0,0 +1,129 @@
+-- Floor plans: one image per building, with incidents pinned on it. Pin positions are
+-- fractions of the image size so they survive the plan being displayed at any scale.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'floor-plans',
+  'floor-plans',
+  false,
+  20 * 1024 * 1024,
+  ARRAY['image/png', 'image/jpeg', 'image/webp']
+);
+
+CREATE TABLE public.floor_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id UUID NOT NULL UNIQUE REFERENCES public.locations(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  width INTEGER NOT NULL CHECK (width > 0),
+  height INTEGER NOT NULL CHECK (height > 0),
+  uploaded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.floor_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view floor plans"
+  ON public.floor_plans FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage floor plans"
+  ON public.floor_plans FOR ALL
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin']::app_role[]));
+
+CREATE TRIGGER update_floor_plans_updated_at
+  BEFORE UPDATE ON public.floor_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_floor_plans
+  AFTER INSERT OR UPDATE OR DELETE ON public.floor_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+CREATE OR REPLACE FUNCTION public.check_floor_plan_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.locations WHERE id = NEW.location_id AND level = 'building') THEN
+    RAISE EXCEPTION 'Floor plans can only be attached to buildings';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_floor_plan_location
+  BEFORE INSERT OR UPDATE OF location_id ON public.floor_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_floor_plan_location();
+
+CREATE POLICY "Authenticated users can view floor plan images"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'floor-plans');
+
+CREATE POLICY "Admins can upload floor plan images"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'floor-plans'
+    AND public.has_any_role(auth.uid(), ARRAY['admin']::app_role[])
+  );
+
+CREATE POLICY "Admins can delete floor plan images"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'floor-plans'
+    AND public.has_any_role(auth.uid(), ARRAY['admin']::app_role[])
+  );
+
+-- A pin only counts while floor_plan_id is set; deleting a plan clears the link but
+-- leaves the coordinates, which are ignored from then on.
+ALTER TABLE public.incidents
+  ADD COLUMN floor_plan_id UUID REFERENCES public.floor_plans(id) ON DELETE SET NULL,
+  ADD COLUMN plan_x DOUBLE PRECISION CHECK (plan_x BETWEEN 0 AND 1),
+  ADD COLUMN plan_y DOUBLE PRECISION CHECK (plan_y BETWEEN 0 AND 1),
+  ADD CONSTRAINT incidents_plan_position_complete CHECK ((plan_x IS NULL) = (plan_y IS NULL));
+
+CREATE INDEX idx_incidents_floor_plan ON public.incidents(floor_plan_id) WHERE floor_plan_id IS NOT NULL;
+
+-- A pin has to be on the plan of the building the incident is located in. Deleting the
+-- incident's location clears its location_id, and the pin goes with it.
+CREATE OR REPLACE FUNCTION public.check_incident_floor_plan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.location_id IS NULL AND TG_OP = 'UPDATE' AND OLD.location_id IS NOT NULL THEN
+    NEW.floor_plan_id := NULL;
+  END IF;
+
+  IF NEW.floor_plan_id IS NOT NULL AND NOT EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id, level FROM public.locations WHERE id = NEW.location_id
+      UNION ALL
+      SELECT l.id, l.parent_id, l.level
+      FROM public.locations l
+      JOIN ancestors a ON a.parent_id = l.id
+    )
+    SELECT 1
+    FROM ancestors a
+    JOIN public.floor_plans p ON p.location_id = a.id
+    WHERE a.level = 'building' AND p.id = NEW.floor_plan_id
+  ) THEN
+    RAISE EXCEPTION 'Incidents can only be pinned on the floor plan of their own building';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_incident_floor_plan
+  BEFORE INSERT OR UPDATE OF floor_plan_id, location_id ON public.incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_incident_floor_plan();
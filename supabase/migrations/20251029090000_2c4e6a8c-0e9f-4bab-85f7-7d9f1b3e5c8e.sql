@@ -0,0 +1,190 @@
+-- Aggregates behind the analytics dashboard, so it no longer downloads every incident.
+-- All functions run with the caller's permissions: counts only include incidents the
+-- caller can see. Ranges are inclusive and filter on created_at unless noted otherwise.
+
+-- Slugs of a category and its subcategories
+CREATE OR REPLACE FUNCTION public.category_family(_slug TEXT)
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.slug
+  FROM public.categories c
+  LEFT JOIN public.categories p ON p.id = c.parent_id
+  WHERE c.slug = _slug OR p.slug = _slug
+$$;
+
+-- The ancestor of a location at the given level, or the location itself when it sits above
+-- that level (a whole building when rolling up by floor)
+CREATE OR REPLACE FUNCTION public.location_ancestor(_location_id UUID, _level location_level)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE ancestors AS (
+    SELECT id, parent_id, level FROM public.locations WHERE id = _location_id
+    UNION ALL
+    SELECT l.id, l.parent_id, l.level
+    FROM public.locations l
+    JOIN ancestors a ON a.parent_id = l.id
+  )
+  SELECT id FROM ancestors WHERE level <= _level ORDER BY level DESC LIMIT 1
+$$;
+
+-- Status and priority counts, mean time to resolve and SLA outcomes. An SLA target counts
+-- as met or breached once decided; pending targets are left out of both.
+CREATE OR REPLACE FUNCTION public.incident_stats(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _category TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  total BIGINT,
+  open BIGINT,
+  in_progress BIGINT,
+  resolved BIGINT,
+  closed BIGINT,
+  critical BIGINT,
+  high BIGINT,
+  medium BIGINT,
+  low BIGINT,
+  mean_time_to_resolve_seconds DOUBLE PRECISION,
+  response_sla_met BIGINT,
+  response_sla_breached BIGINT,
+  resolution_sla_met BIGINT,
+  resolution_sla_breached BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE i.status = 'open'),
+    count(*) FILTER (WHERE i.status = 'in_progress'),
+    count(*) FILTER (WHERE i.status = 'resolved'),
+    count(*) FILTER (WHERE i.status = 'closed'),
+    count(*) FILTER (WHERE i.priority = 'critical'),
+    count(*) FILTER (WHERE i.priority = 'high'),
+    count(*) FILTER (WHERE i.priority = 'medium'),
+    count(*) FILTER (WHERE i.priority = 'low'),
+    EXTRACT(EPOCH FROM avg(i.resolved_at - i.created_at))::DOUBLE PRECISION,
+    count(*) FILTER (WHERE i.acknowledged_at <= i.response_due_at),
+    count(*) FILTER (
+      WHERE i.acknowledged_at > i.response_due_at
+        OR (i.acknowledged_at IS NULL AND i.response_due_at < now())
+    ),
+    count(*) FILTER (WHERE i.resolved_at <= i.resolution_due_at),
+    count(*) FILTER (
+      WHERE i.resolved_at > i.resolution_due_at
+        OR (i.resolved_at IS NULL AND i.resolution_due_at < now())
+    )
+  FROM public.incidents i
+  WHERE i.created_at BETWEEN _from AND _to
+    AND (_category IS NULL OR i.category IN (SELECT public.category_family(_category)))
+$$;
+
+-- Incidents reported and resolved per day, week (starting Monday) or month of the range.
+-- Periods are local times in _time_zone, and periods without incidents are included.
+CREATE OR REPLACE FUNCTION public.incident_trend(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _bucket TEXT,
+  _time_zone TEXT DEFAULT 'UTC',
+  _category TEXT DEFAULT NULL
+)
+RETURNS TABLE (period TIMESTAMP, reported BIGINT, resolved BIGINT)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF _bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Unsupported bucket: %', _bucket;
+  END IF;
+
+  RETURN QUERY
+  WITH filtered AS (
+    SELECT i.created_at, i.resolved_at
+    FROM public.incidents i
+    WHERE (i.created_at BETWEEN _from AND _to OR i.resolved_at BETWEEN _from AND _to)
+      AND (_category IS NULL OR i.category IN (SELECT public.category_family(_category)))
+  ),
+  periods AS (
+    SELECT generate_series(
+      date_trunc(_bucket, _from AT TIME ZONE _time_zone),
+      _to AT TIME ZONE _time_zone,
+      ('1 ' || _bucket)::INTERVAL
+    ) AS period
+  ),
+  reported_counts AS (
+    SELECT date_trunc(_bucket, f.created_at AT TIME ZONE _time_zone) AS period, count(*) AS n
+    FROM filtered f
+    WHERE f.created_at BETWEEN _from AND _to
+    GROUP BY 1
+  ),
+  resolved_counts AS (
+    SELECT date_trunc(_bucket, f.resolved_at AT TIME ZONE _time_zone) AS period, count(*) AS n
+    FROM filtered f
+    WHERE f.resolved_at BETWEEN _from AND _to
+    GROUP BY 1
+  )
+  SELECT p.period, COALESCE(rep.n, 0), COALESCE(res.n, 0)
+  FROM periods p
+  LEFT JOIN reported_counts rep ON rep.period = p.period
+  LEFT JOIN resolved_counts res ON res.period = p.period
+  ORDER BY p.period;
+END;
+$$;
+
+-- Counts per top-level category and priority; subcategories count towards their parent
+CREATE OR REPLACE FUNCTION public.incident_category_counts(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _category TEXT DEFAULT NULL
+)
+RETURNS TABLE (category TEXT, priority incident_priority, incident_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(p.slug, i.category), i.priority, count(*)
+  FROM public.incidents i
+  LEFT JOIN public.categories c ON c.slug = i.category
+  LEFT JOIN public.categories p ON p.id = c.parent_id
+  WHERE i.created_at BETWEEN _from AND _to
+    AND (_category IS NULL OR i.category IN (SELECT public.category_family(_category)))
+  GROUP BY 1, 2
+$$;
+
+-- The locations with the most incidents. With a level, registry locations roll up to that
+-- level and incidents outside the registry share a single row with a NULL location; without
+-- one, incidents are grouped by their free-text location.
+CREATE OR REPLACE FUNCTION public.incident_location_counts(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _level location_level DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (location_id UUID, location TEXT, incident_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH grouped AS (
+    SELECT
+      CASE WHEN _level IS NOT NULL THEN public.location_ancestor(i.location_id, _level) END AS location_id,
+      CASE WHEN _level IS NULL THEN trim(i.location) END AS location
+    FROM public.incidents i
+    WHERE i.created_at BETWEEN _from AND _to
+      AND (_category IS NULL OR i.category IN (SELECT public.category_family(_category)))
+  )
+  SELECT g.location_id, COALESCE(public.location_path(g.location_id), g.location), count(*)
+  FROM grouped g
+  GROUP BY g.location_id, g.location
+  ORDER BY count(*) DESC, 2
+  LIMIT _limit
+$$;
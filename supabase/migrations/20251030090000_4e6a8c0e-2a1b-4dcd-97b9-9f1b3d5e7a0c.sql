@@ -0,0 +1,136 @@
+-- Response times: how long incidents wait to be acknowledged (MTTA) and resolved (MTTR).
+-- An incident is acknowledged by its first status change or assignment. acknowledged_at
+-- records that since the SLA migration, but was backfilled from updated_at for older
+-- incidents, so the earliest matching timeline entry is used when it is earlier.
+
+-- One row per incident reported in the range, with its timings and the keys it is grouped by
+CREATE OR REPLACE FUNCTION public.incident_response_samples(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _category TEXT DEFAULT NULL,
+  _level location_level DEFAULT NULL
+)
+RETURNS TABLE (
+  incident_id UUID,
+  title TEXT,
+  priority incident_priority,
+  status incident_status,
+  created_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  time_to_acknowledge_seconds DOUBLE PRECISION,
+  time_to_resolve_seconds DOUBLE PRECISION,
+  category_key TEXT,
+  location_key TEXT,
+  location_label TEXT,
+  assignee_key TEXT,
+  assignee_label TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH timed AS (
+    SELECT
+      i.*,
+      LEAST(
+        i.acknowledged_at,
+        (
+          SELECT min(u.created_at)
+          FROM public.incident_updates u
+          WHERE u.incident_id = i.id
+            AND u.update_type IN ('status_change', 'assignment')
+        )
+      ) AS first_response_at,
+      CASE WHEN _level IS NOT NULL THEN public.location_ancestor(i.location_id, _level) END AS location_ancestor_id
+    FROM public.incidents i
+    WHERE i.created_at BETWEEN _from AND _to
+      AND (_category IS NULL OR i.category IN (SELECT public.category_family(_category)))
+  )
+  SELECT
+    t.id,
+    t.title,
+    t.priority,
+    t.status,
+    t.created_at,
+    t.first_response_at,
+    t.resolved_at,
+    EXTRACT(EPOCH FROM t.first_response_at - t.created_at)::DOUBLE PRECISION,
+    EXTRACT(EPOCH FROM t.resolved_at - t.created_at)::DOUBLE PRECISION,
+    COALESCE(p.slug, t.category),
+    -- Without a level, incidents are grouped by their free-text location
+    CASE WHEN _level IS NULL THEN trim(t.location) ELSE t.location_ancestor_id::TEXT END,
+    CASE WHEN _level IS NULL THEN trim(t.location) ELSE public.location_path(t.location_ancestor_id) END,
+    t.assigned_to::TEXT,
+    COALESCE(a.full_name, a.email)
+  FROM timed t
+  LEFT JOIN public.categories c ON c.slug = t.category
+  LEFT JOIN public.categories p ON p.id = c.parent_id
+  LEFT JOIN public.profiles a ON a.id = t.assigned_to
+$$;
+
+-- Mean, median and 90th percentile response times per priority, category, location or assignee.
+-- Incidents not yet acknowledged or resolved count towards incident_count only.
+CREATE OR REPLACE FUNCTION public.incident_response_times(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _group_by TEXT,
+  _category TEXT DEFAULT NULL,
+  _level location_level DEFAULT NULL
+)
+RETURNS TABLE (
+  group_key TEXT,
+  group_label TEXT,
+  incident_count BIGINT,
+  acknowledged_count BIGINT,
+  resolved_count BIGINT,
+  mtta_seconds DOUBLE PRECISION,
+  mtta_p50_seconds DOUBLE PRECISION,
+  mtta_p90_seconds DOUBLE PRECISION,
+  mttr_seconds DOUBLE PRECISION,
+  mttr_p50_seconds DOUBLE PRECISION,
+  mttr_p90_seconds DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF _group_by NOT IN ('priority', 'category', 'location', 'assignee') THEN
+    RAISE EXCEPTION 'Unsupported grouping: %', _group_by;
+  END IF;
+
+  RETURN QUERY
+  WITH grouped AS (
+    SELECT
+      CASE _group_by
+        WHEN 'priority' THEN s.priority::TEXT
+        WHEN 'category' THEN s.category_key
+        WHEN 'location' THEN s.location_key
+        ELSE s.assignee_key
+      END AS key,
+      CASE _group_by
+        WHEN 'location' THEN s.location_label
+        WHEN 'assignee' THEN s.assignee_label
+      END AS label,
+      s.time_to_acknowledge_seconds AS tta,
+      s.time_to_resolve_seconds AS ttr
+    FROM public.incident_response_samples(_from, _to, _category, _level) s
+  )
+  SELECT
+    g.key,
+    max(g.label),
+    count(*),
+    count(g.tta),
+    count(g.ttr),
+    avg(g.tta),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY g.tta),
+    percentile_cont(0.9) WITHIN GROUP (ORDER BY g.tta),
+    avg(g.ttr),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY g.ttr),
+    percentile_cont(0.9) WITHIN GROUP (ORDER BY g.ttr)
+  FROM grouped g
+  GROUP BY g.key
+  ORDER BY count(*) DESC, max(g.label), g.key;
+END;
+$$;
@@ -0,0 +1,84 @@
+-- Edits to the reported fields are recorded on the timeline by the database, in the same
+-- transaction as the edit, so changes made through the API are recorded too and an edit can
+-- never be saved without its history. One entry per field so each change reads on its own.
+-- Keep the labels in sync with INCIDENT_FIELD_LABELS in src/lib/incident-fields.ts.
+
+-- How a field value reads on the timeline: categories by name, empty values as a dash
+CREATE OR REPLACE FUNCTION public.format_incident_field(_field TEXT, _value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN coalesce(_value, '') = '' THEN '—'
+    WHEN _field = 'category' THEN coalesce((SELECT c.name FROM public.categories c WHERE c.slug = _value), _value)
+    ELSE _value
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_incident_field_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  field RECORD;
+BEGIN
+  FOR field IN
+    SELECT *
+    FROM (VALUES
+      (1, 'title', 'Title', OLD.title, NEW.title),
+      (2, 'description', 'Description', OLD.description, NEW.description),
+      (3, 'priority', 'Priority', OLD.priority::TEXT, NEW.priority::TEXT),
+      (4, 'category', 'Category', OLD.category, NEW.category),
+      (5, 'location', 'Location', OLD.location, NEW.location)
+    ) AS f(position, name, label, old_value, new_value)
+    WHERE f.old_value IS DISTINCT FROM f.new_value
+      -- Renaming a registry location rewrites the stored path without moving the incident
+      AND NOT (f.name = 'location' AND OLD.location_id IS NOT NULL AND NEW.location_id = OLD.location_id)
+    ORDER BY f.position
+  LOOP
+    INSERT INTO public.incident_updates (incident_id, user_id, update_type, content)
+    VALUES (
+      NEW.id,
+      auth.uid(),
+      CASE WHEN field.name = 'priority' THEN 'priority_change' ELSE 'field_change' END,
+      format(
+        '%s: %s → %s',
+        field.label,
+        public.format_incident_field(field.name, field.old_value),
+        public.format_incident_field(field.name, field.new_value)
+      )
+    );
+  END LOOP;
+
+  -- The plan pin is recorded as a single change rather than one per column
+  IF NEW.floor_plan_id IS DISTINCT FROM OLD.floor_plan_id
+    OR (NEW.floor_plan_id IS NOT NULL AND (NEW.plan_x, NEW.plan_y) IS DISTINCT FROM (OLD.plan_x, OLD.plan_y)) THEN
+    INSERT INTO public.incident_updates (incident_id, user_id, update_type, content)
+    VALUES (
+      NEW.id,
+      auth.uid(),
+      'field_change',
+      format(
+        'Floor plan pin %s',
+        CASE
+          WHEN NEW.floor_plan_id IS NULL THEN 'removed'
+          WHEN OLD.floor_plan_id IS NULL THEN 'added'
+          ELSE 'moved'
+        END
+      )
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_incidents_field_changes
+  AFTER UPDATE OF title, description, priority, category, location, floor_plan_id, plan_x, plan_y
+  ON public.incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_incident_field_changes();